@@ -0,0 +1,341 @@
+/**
+ * Response Schema Generator
+ *
+ * Reads every agent schema in response_schemas/ and writes TypeScript types
+ * plus matching zod validators to src/generated/agent-responses.ts.
+ *
+ * The stored `response_schema` gives the declared shape. Fields declared as
+ * "any" (e.g. `sources: ["any"]`) are inferred from the samples that sit
+ * next to it - `example_response`, `actual_test_response` and the
+ * `actual_response` of matching files in response_schemas/test_results/.
+ * With no sample values to learn from, they stay `unknown`.
+ *
+ * @example
+ * ```bash
+ * npm run generate:schemas
+ * ```
+ */
+
+import { readdirSync, readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs'
+import { dirname, join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+const SCHEMA_DIR = join(ROOT, 'response_schemas')
+const TEST_RESULTS_DIR = join(SCHEMA_DIR, 'test_results')
+const OUTPUT_FILE = join(ROOT, 'src', 'generated', 'agent-responses.ts')
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+function readJson(file) {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    console.warn(`Skipping ${relative(ROOT, file)}: ${error.message}`)
+    return null
+  }
+}
+
+function listJsonFiles(dir) {
+  if (!existsSync(dir)) return []
+  return readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .sort()
+    .map((name) => join(dir, name))
+}
+
+/**
+ * Sample responses for an agent: the stored examples plus test runs of the same agent
+ */
+function collectSamples(schemaFile, testResults) {
+  const samples = [schemaFile.example_response, schemaFile.actual_test_response]
+  for (const test of testResults) {
+    if (test.agent_id === schemaFile.agent_id || test.agent_name === schemaFile.agent_name) {
+      samples.push(test.actual_response)
+    }
+  }
+  return samples.filter((sample) => sample && typeof sample === 'object')
+}
+
+// =============================================================================
+// Type Inference
+// =============================================================================
+
+// Shape IR: { kind: 'string' | 'number' | 'boolean' | 'null' | 'unknown' }
+//         | { kind: 'array', element }
+//         | { kind: 'object', fields: [{ name, shape, optional }] }
+//         | { kind: 'union', options }
+
+/**
+ * Values at a path in every sample; arrays along the path are flattened
+ */
+function valuesAt(samples, path) {
+  let values = samples
+  for (const key of path) {
+    const next = []
+    for (const value of values) {
+      if (key === '[]') {
+        if (Array.isArray(value)) next.push(...value)
+      } else if (value && typeof value === 'object' && !Array.isArray(value) && key in value) {
+        next.push(value[key])
+      }
+    }
+    values = next
+  }
+  return values
+}
+
+function shapeKey(shape) {
+  return JSON.stringify(shape)
+}
+
+function unionOf(shapes) {
+  const unique = []
+  const seen = new Set()
+  for (const shape of shapes.flatMap((s) => (s.kind === 'union' ? s.options : [s]))) {
+    const key = shapeKey(shape)
+    if (!seen.has(key)) {
+      seen.add(key)
+      unique.push(shape)
+    }
+  }
+  if (unique.length === 0) return { kind: 'unknown' }
+  return unique.length === 1 ? unique[0] : { kind: 'union', options: unique }
+}
+
+/**
+ * Infer a shape from sample values. Objects are merged: keys missing from
+ * some samples become optional.
+ */
+function inferShape(values) {
+  if (values.length === 0) return { kind: 'unknown' }
+
+  const shapes = []
+  const objects = values.filter((v) => v && typeof v === 'object' && !Array.isArray(v))
+  const arrays = values.filter(Array.isArray)
+
+  for (const value of values) {
+    if (value === null) shapes.push({ kind: 'null' })
+    else if (typeof value === 'string') shapes.push({ kind: 'string' })
+    else if (typeof value === 'number') shapes.push({ kind: 'number' })
+    else if (typeof value === 'boolean') shapes.push({ kind: 'boolean' })
+  }
+
+  if (arrays.length > 0) {
+    shapes.push({ kind: 'array', element: inferShape(arrays.flat()) })
+  }
+
+  if (objects.length > 0) {
+    const names = [...new Set(objects.flatMap((o) => Object.keys(o)))]
+    shapes.push({
+      kind: 'object',
+      fields: names.map((name) => ({
+        name,
+        shape: inferShape(objects.filter((o) => name in o).map((o) => o[name])),
+        optional: objects.some((o) => !(name in o)),
+      })),
+    })
+  }
+
+  return unionOf(shapes)
+}
+
+/**
+ * Shape from a declared response_schema node; "any" is inferred from samples
+ */
+function shapeFromSchema(node, samples, path = []) {
+  if (Array.isArray(node)) {
+    return { kind: 'array', element: shapeFromSchema(node[0] ?? 'any', samples, [...path, '[]']) }
+  }
+
+  if (node && typeof node === 'object') {
+    return {
+      kind: 'object',
+      fields: Object.entries(node).map(([name, child]) => ({
+        name,
+        shape: shapeFromSchema(child, samples, [...path, name]),
+        optional: false,
+      })),
+    }
+  }
+
+  switch (node) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return { kind: node }
+    case 'integer':
+      return { kind: 'number' }
+    default:
+      return inferShape(valuesAt(samples, path))
+  }
+}
+
+// =============================================================================
+// Emitting
+// =============================================================================
+
+function toPascalCase(text) {
+  return text
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+}
+
+function toCamelCase(text) {
+  const pascal = toPascalCase(text)
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1)
+}
+
+function quote(text) {
+  return `'${String(text).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function propertyName(name) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
+
+function indent(level) {
+  return '  '.repeat(level)
+}
+
+function emitType(shape, level) {
+  switch (shape.kind) {
+    case 'array': {
+      const element = emitType(shape.element, level)
+      return shape.element.kind === 'union' ? `Array<${element}>` : `${element}[]`
+    }
+    case 'object': {
+      if (shape.fields.length === 0) return 'Record<string, unknown>'
+      const lines = shape.fields.map(
+        (field) =>
+          `${indent(level + 1)}${propertyName(field.name)}${field.optional ? '?' : ''}: ${emitType(field.shape, level + 1)}`
+      )
+      return `{\n${lines.join('\n')}\n${indent(level)}}`
+    }
+    case 'union':
+      return shape.options.map((option) => emitType(option, level)).join(' | ')
+    default:
+      return shape.kind
+  }
+}
+
+function emitZod(shape, level) {
+  switch (shape.kind) {
+    case 'array':
+      return `z.array(${emitZod(shape.element, level)})`
+    case 'object': {
+      if (shape.fields.length === 0) return 'z.record(z.string(), z.unknown())'
+      const lines = shape.fields.map(
+        (field) =>
+          `${indent(level + 1)}${propertyName(field.name)}: ${emitZod(field.shape, level + 1)}${field.optional ? '.optional()' : ''},`
+      )
+      return `z.object({\n${lines.join('\n')}\n${indent(level)}})`
+    }
+    case 'union':
+      return `z.union([${shape.options.map((option) => emitZod(option, level)).join(', ')}])`
+    default:
+      return `z.${shape.kind}()`
+  }
+}
+
+function emitAgent(entry) {
+  const { typeName, schemaName, shape, file, agentName } = entry
+  const hasResult = shape.kind === 'object' && shape.fields.some((f) => f.name === 'result')
+  const lines = [
+    '// -----------------------------------------------------------------------------',
+    `// ${agentName} (${file})`,
+    '// -----------------------------------------------------------------------------',
+    '',
+    `export interface ${typeName}Response ${emitType(shape, 0)}`,
+    '',
+  ]
+
+  if (hasResult) {
+    lines.push(`export type ${typeName}Result = ${typeName}Response['result']`, '')
+  }
+
+  lines.push(`export const ${schemaName}ResponseSchema = ${emitZod(shape, 0)}`, '')
+
+  if (hasResult) {
+    lines.push(`export const ${schemaName}ResultSchema = ${schemaName}ResponseSchema.shape.result`, '')
+  }
+
+  return lines.join('\n')
+}
+
+function emitModule(entries) {
+  const registry = entries.map((entry) => {
+    const hasResult = entry.shape.kind === 'object' && entry.shape.fields.some((f) => f.name === 'result')
+    return [
+      `  ${quote(entry.file)}: {`,
+      `    agentName: ${quote(entry.agentName)},`,
+      `    agentId: ${quote(entry.agentId ?? '')},`,
+      `    response: ${entry.schemaName}ResponseSchema,`,
+      `    result: ${hasResult ? `${entry.schemaName}ResultSchema` : 'null'},`,
+      '  },',
+    ].join('\n')
+  })
+
+  return [
+    '/**',
+    ' * Agent Response Types and Validators',
+    ' *',
+    ' * GENERATED by scripts/generate-response-schemas.mjs from response_schemas/ -',
+    ' * do not edit by hand. Run `npm run generate:schemas` after changing a schema.',
+    ' */',
+    '',
+    "import { z } from 'zod'",
+    '',
+    ...entries.map(emitAgent),
+    '// -----------------------------------------------------------------------------',
+    '// Registry',
+    '// -----------------------------------------------------------------------------',
+    '',
+    'export interface GeneratedResponseSchema {',
+    '  agentName: string',
+    '  agentId: string',
+    '  /** Whole response: status, result, metadata */',
+    '  response: z.ZodType',
+    "  /** The response's `result` object, if the schema declares one */",
+    '  result: z.ZodType | null',
+    '}',
+    '',
+    '/**',
+    ' * Keyed by the schema file path (AgentConfig.response_schema_file)',
+    ' */',
+    'export const GENERATED_RESPONSE_SCHEMAS: Record<string, GeneratedResponseSchema> = {',
+    ...registry,
+    '}',
+    '',
+  ].join('\n')
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+const testResults = listJsonFiles(TEST_RESULTS_DIR).map(readJson).filter(Boolean)
+
+const entries = listJsonFiles(SCHEMA_DIR)
+  .map((path) => ({ path, data: readJson(path) }))
+  .filter(({ data }) => data?.response_schema)
+  .map(({ path, data }) => {
+    const agentName = data.agent_name || relative(SCHEMA_DIR, path).replace(/\.json$/, '')
+    return {
+      file: relative(ROOT, path).split('\\').join('/'),
+      agentName,
+      agentId: data.agent_id,
+      typeName: toPascalCase(agentName),
+      schemaName: toCamelCase(agentName),
+      shape: shapeFromSchema(data.response_schema, collectSamples(data, testResults)),
+    }
+  })
+
+mkdirSync(dirname(OUTPUT_FILE), { recursive: true })
+writeFileSync(OUTPUT_FILE, emitModule(entries))
+console.log(`Wrote ${entries.length} agent schema(s) to ${relative(ROOT, OUTPUT_FILE)}`)
@@ -0,0 +1,584 @@
+/**
+ * Mock Lyzr Server
+ *
+ * In-memory stand-in for the Lyzr Agent and RAG APIs, for developing and
+ * testing without network access or an API key. Both APIs are served from
+ * one origin under /v3, so point both base URLs at it (settings dialog, or
+ * VITE_LYZR_AGENT_BASE_URL / VITE_LYZR_RAG_BASE_URL in .env.local):
+ *
+ *   http://localhost:8787/v3
+ *
+ * Endpoints:
+ *   POST   /v3/inference/chat/       answer from the keyword retriever
+ *   POST   /v3/inference/stream/     same answer as SSE tokens
+ *   POST   /v3/assets/upload         multipart "files" -> asset ids
+ *   POST   /v3/rag/ingest            { rag_id, asset_ids } -> chunk and index
+ *   POST   /v3/parse/{type}/         multipart "file" -> { documents } chunks
+ *   POST   /v3/rag/train/{id}/       chunk documents -> index
+ *   GET    /v3/rag/documents/{id}/   ["storage/<name>", ...]
+ *   DELETE /v3/rag/{id}/docs/        ["storage/<name>", ...]
+ *
+ * Answers have the Knowledge Search Agent shape (answer, sources,
+ * confidence, related_questions) with sources taken from the indexed chunks.
+ * Text is read from plain-text formats and DOCX; other binaries (e.g. PDF)
+ * fall back to their printable text runs.
+ *
+ * Fault injection:
+ *   MOCK_LATENCY_MS=300 or 100-800   delay before every response
+ *   MOCK_ERROR_RATE=0.2              share of requests answered with a 500
+ *   MOCK_MALFORMED_RATE=0.2          share of 200s with a truncated JSON body
+ *   MOCK_API_KEY=secret              require this x-api-key (default: any)
+ *   ?mock_fault=<fault> or an x-mock-fault header on one request, where
+ *   <fault> is 500, 503, 429, 404, malformed, hang or drop
+ *   GET/POST /__mock/config          read or change the knobs at runtime,
+ *                                    e.g. { "failNext": 2 } -> two 503s with Retry-After
+ *   POST /__mock/reset               forget all assets and knowledge bases
+ *   GET  /__mock/state               indexed documents per knowledge base
+ *
+ * @example
+ * ```bash
+ * npm run mock:lyzr
+ * MOCK_LATENCY_MS=200-1500 MOCK_ERROR_RATE=0.1 PORT=9000 npm run mock:lyzr
+ * ```
+ */
+
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { randomUUID } from 'node:crypto'
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..')
+
+const CHUNK_SIZE = 800
+const CHUNK_OVERLAP = 100
+const TOP_K = 3
+
+const STOPWORDS = new Set(
+  ('the and for are but not you all any can had her was one our out has his how its may new now ' +
+    'see who did get let say she too use what when where which while with this that these those ' +
+    'from have been will would could should there their them then than into about does also only ' +
+    'more most some such very your just over like each other tell give show find know documents ' +
+    'document please answer question')
+    .split(' ')
+)
+
+// =============================================================================
+// Text Extraction and Chunking
+// =============================================================================
+
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|html?|xml|log|rst)$/i
+
+function stripMarkup(text) {
+  return text.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')
+}
+
+/**
+ * Best-effort text of an uploaded file
+ */
+async function extractText(fileName, buffer) {
+  if (TEXT_EXTENSIONS.test(fileName)) {
+    const text = buffer.toString('utf8')
+    return /\.(html?|xml)$/i.test(fileName) ? stripMarkup(text) : text
+  }
+
+  if (/\.docx$/i.test(fileName)) {
+    try {
+      const { default: JSZip } = await import('jszip')
+      const zip = await JSZip.loadAsync(buffer)
+      const xml = await zip.file('word/document.xml')?.async('string')
+      if (xml) return stripMarkup(xml.replace(/<\/w:p>/g, '\n'))
+    } catch (error) {
+      console.warn(`[mock] could not read ${fileName} as DOCX: ${error.message}`)
+    }
+  }
+
+  // Printable runs, like `strings`
+  return (buffer.toString('latin1').match(/[\x20-\x7e]{4,}/g) || []).join(' ')
+}
+
+/**
+ * Split text into overlapping chunks; form feeds start a new page
+ */
+function chunkPages(text, chunkSize = CHUNK_SIZE, chunkOverlap = CHUNK_OVERLAP) {
+  const chunks = []
+  text.split('\f').forEach((page, pageIndex) => {
+    const clean = page.replace(/\s+/g, ' ').trim()
+    const step = Math.max(chunkSize - chunkOverlap, 1)
+    for (let start = 0; start < clean.length; start += step) {
+      chunks.push({ text: clean.slice(start, start + chunkSize), page: pageIndex + 1 })
+      if (start + chunkSize >= clean.length) break
+    }
+  })
+  return chunks
+}
+
+function toTrainingDocument(fileName, chunk) {
+  return {
+    id_: randomUUID(),
+    text: chunk.text,
+    metadata: { source: `storage/${fileName}`, file_name: fileName, page_number: chunk.page },
+    embedding: null,
+    excluded_embed_metadata_keys: [],
+    excluded_llm_metadata_keys: [],
+  }
+}
+
+// =============================================================================
+// Keyword Retriever
+// =============================================================================
+
+function tokenize(text) {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(
+    (word) => word.length > 2 && !STOPWORDS.has(word)
+  )
+}
+
+function storedName(name) {
+  return name.startsWith('storage/') ? name : `storage/${name}`
+}
+
+function displayName(name) {
+  return name.replace(/^storage\//, '')
+}
+
+function normalizeName(name) {
+  return displayName(name).trim().toLowerCase().replace(/\.[a-z0-9]+$/, '')
+}
+
+/**
+ * Rank chunks by TF-IDF over the query terms
+ */
+function search(chunks, query, limit = TOP_K) {
+  const terms = [...new Set(tokenize(query))]
+  if (terms.length === 0 || chunks.length === 0) return { terms, hits: [] }
+
+  const tokenized = chunks.map((chunk) => tokenize(chunk.text))
+  const idf = Object.fromEntries(
+    terms.map((term) => {
+      const df = tokenized.filter((tokens) => tokens.includes(term)).length
+      return [term, df === 0 ? 0 : Math.log(1 + chunks.length / df)]
+    })
+  )
+
+  const hits = chunks
+    .map((chunk, i) => {
+      const tokens = tokenized[i]
+      const matched = terms.filter((term) => tokens.includes(term))
+      const score =
+        terms.reduce((sum, term) => sum + tokens.filter((t) => t === term).length * idf[term], 0) /
+        Math.sqrt(tokens.length || 1)
+      return { chunk, score, matched }
+    })
+    .filter((hit) => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+
+  return { terms, hits }
+}
+
+/**
+ * Sentence of a chunk with the most query terms
+ */
+function bestSentence(text, terms) {
+  const sentences = text.match(/[^.!?]+[.!?]?/g) || [text]
+  let best = sentences[0]
+  let bestCount = -1
+  for (const sentence of sentences) {
+    const tokens = tokenize(sentence)
+    const count = terms.filter((term) => tokens.includes(term)).length
+    if (count > bestCount) {
+      best = sentence
+      bestCount = count
+    }
+  }
+  return best.trim()
+}
+
+function buildAnswer(chunks, message, documentScope) {
+  // Drop the scope instruction buildScopedMessage appends to the question
+  const query = message.split('\n\nAnswer using only these documents')[0]
+  const scope = (documentScope || []).map(normalizeName)
+  const candidates = scope.length > 0
+    ? chunks.filter((chunk) => scope.includes(normalizeName(chunk.document)))
+    : chunks
+
+  const { terms, hits } = search(candidates, query)
+
+  if (hits.length === 0) {
+    return {
+      status: 'error',
+      result: {
+        answer:
+          'No relevant information was found in the knowledge base to answer your query. ' +
+          'Please consider refining your question or providing more specific details.',
+        sources: [],
+        confidence: 0,
+        related_questions: [
+          'Can you specify the topic or document you are interested in?',
+          'Would you like to upload a document first?',
+        ],
+      },
+    }
+  }
+
+  const sources = hits.map((hit, i) => ({
+    citation_number: i + 1,
+    document_name: displayName(hit.chunk.document),
+    page_number: hit.chunk.page,
+    excerpt: hit.chunk.text.slice(0, 240),
+  }))
+
+  const answer = hits
+    .map((hit, i) => `${bestSentence(hit.chunk.text, terms)} [${i + 1}]`)
+    .join(' ')
+
+  const matched = new Set(hits.flatMap((hit) => hit.matched))
+  const confidence = Math.round((0.3 + 0.65 * (matched.size / terms.length)) * 100) / 100
+
+  // Frequent words of the top chunk that were not asked about
+  const counts = {}
+  tokenize(hits[0].chunk.text)
+    .filter((word) => !terms.includes(word) && !/^\d+$/.test(word))
+    .forEach((word) => (counts[word] = (counts[word] || 0) + 1))
+  const related = Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([word]) => `What does ${sources[0].document_name} say about ${word}?`)
+
+  return {
+    status: 'success',
+    result: { answer, sources, confidence, related_questions: related },
+  }
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+function loadAgentBindings() {
+  try {
+    const state = JSON.parse(readFileSync(join(ROOT, 'workflow_state.json'), 'utf8'))
+    return Object.fromEntries((state.agents || []).map((agent) => [agent.agent_id, agent.rag_id]))
+  } catch {
+    return {}
+  }
+}
+
+function createStore() {
+  return {
+    /** asset_id -> { file_name, text } */
+    assets: new Map(),
+    /** rag_id -> Map(stored document name -> chunks) */
+    knowledgeBases: new Map(),
+  }
+}
+
+function getKnowledgeBase(store, ragId) {
+  if (!store.knowledgeBases.has(ragId)) store.knowledgeBases.set(ragId, new Map())
+  return store.knowledgeBases.get(ragId)
+}
+
+function addChunks(store, ragId, documentName, chunks) {
+  const knowledgeBase = getKnowledgeBase(store, ragId)
+  const name = storedName(documentName)
+  const existing = knowledgeBase.get(name) || []
+  knowledgeBase.set(name, [...existing, ...chunks.map((chunk) => ({ ...chunk, document: name }))])
+}
+
+// =============================================================================
+// HTTP Helpers
+// =============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, x-api-key, x-mock-fault',
+  'Access-Control-Expose-Headers': 'Retry-After',
+}
+
+function send(res, status, body, headers = {}) {
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json',
+    ...headers,
+  })
+  res.end(text)
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const parts = []
+    req.on('data', (part) => parts.push(part))
+    req.on('end', () => resolve(Buffer.concat(parts)))
+    req.on('error', reject)
+  })
+}
+
+async function readJsonBody(req) {
+  const body = await readBody(req)
+  return body.length > 0 ? JSON.parse(body.toString('utf8')) : null
+}
+
+/**
+ * Parse a multipart body with the platform Request
+ */
+async function readFormData(req) {
+  const body = await readBody(req)
+  return new Request('http://mock.local', {
+    method: 'POST',
+    headers: { 'content-type': req.headers['content-type'] || '' },
+    body,
+  }).formData()
+}
+
+function parseLatency(value) {
+  if (!value) return [0, 0]
+  const [min, max] = String(value).split('-').map(Number)
+  return [min || 0, Number.isFinite(max) ? max : min || 0]
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Create the mock server (not listening yet)
+ */
+export function createMockLyzrServer(options = {}) {
+  const store = createStore()
+  const agentBindings = loadAgentBindings()
+  const config = {
+    latencyMs: parseLatency(options.latencyMs ?? process.env.MOCK_LATENCY_MS),
+    errorRate: Number(options.errorRate ?? process.env.MOCK_ERROR_RATE ?? 0),
+    malformedRate: Number(options.malformedRate ?? process.env.MOCK_MALFORMED_RATE ?? 0),
+    apiKey: options.apiKey ?? process.env.MOCK_API_KEY ?? '',
+    /** Answer this many upcoming requests with 503 + Retry-After */
+    failNext: 0,
+  }
+
+  /**
+   * Send JSON, unless a malformed body was asked for
+   */
+  const sendJson = (res, body, fault) => {
+    const malformed = fault === 'malformed' || (!fault && Math.random() < config.malformedRate)
+    if (malformed) {
+      const text = JSON.stringify(body)
+      send(res, 200, text.slice(0, Math.max(Math.floor(text.length / 2), 1)), {
+        'Content-Type': 'application/json',
+      })
+      return
+    }
+    send(res, 200, body)
+  }
+
+  const chunksForAgent = (agentId) => {
+    const ragId = agentBindings[agentId]
+    const bases = ragId && store.knowledgeBases.has(ragId)
+      ? [store.knowledgeBases.get(ragId)]
+      : [...store.knowledgeBases.values()]
+    return bases.flatMap((base) => [...base.values()].flat())
+  }
+
+  const routes = [
+    ['POST', /^\/v3\/inference\/chat\/?$/, async (req, res, _match, fault) => {
+      const { message = '', agent_id, session_id, document_scope } = (await readJsonBody(req)) || {}
+      const answer = buildAnswer(chunksForAgent(agent_id), message, document_scope)
+      const response = {
+        ...answer,
+        metadata: { agent_name: 'Mock Knowledge Search Agent', timestamp: new Date().toISOString() },
+      }
+      sendJson(res, { response: JSON.stringify(response), session_id, agent_id, role: 'assistant' }, fault)
+    }],
+
+    ['POST', /^\/v3\/inference\/stream\/?$/, async (req, res, _match, fault) => {
+      const { message = '', agent_id, document_scope } = (await readJsonBody(req)) || {}
+      const answer = buildAnswer(chunksForAgent(agent_id), message, document_scope)
+      const text = JSON.stringify(
+        {
+          ...answer,
+          metadata: { agent_name: 'Mock Knowledge Search Agent', timestamp: new Date().toISOString() },
+        },
+        null,
+        2
+      )
+      // A malformed stream ends half way
+      const end = fault === 'malformed' ? Math.floor(text.length / 2) : text.length
+
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+      for (let i = 0; i < end; i += 24) {
+        res.write(`data: ${JSON.stringify({ content: text.slice(i, Math.min(i + 24, end)) })}\n\n`)
+        await sleep(15)
+      }
+      res.end('data: [DONE]\n\n')
+    }],
+
+    ['POST', /^\/v3\/assets\/upload\/?$/, async (req, res, _match, fault) => {
+      const form = await readFormData(req)
+      const results = []
+      for (const file of form.getAll('files')) {
+        if (typeof file === 'string') continue
+        const asset_id = randomUUID()
+        const text = await extractText(file.name, Buffer.from(await file.arrayBuffer()))
+        store.assets.set(asset_id, { file_name: file.name, text })
+        results.push({ asset_id, file_name: file.name, success: true, error: null })
+      }
+      sendJson(res, {
+        results,
+        total_files: results.length,
+        successful_uploads: results.length,
+        failed_uploads: 0,
+      }, fault)
+    }],
+
+    ['POST', /^\/v3\/rag\/ingest\/?$/, async (req, res, _match, fault) => {
+      const { rag_id, asset_ids = [] } = (await readJsonBody(req)) || {}
+      if (!rag_id) return send(res, 422, { detail: 'rag_id is required' })
+
+      const missing = asset_ids.filter((id) => !store.assets.has(id))
+      if (missing.length > 0) return send(res, 404, { detail: `Unknown asset(s): ${missing.join(', ')}` })
+
+      for (const id of asset_ids) {
+        const asset = store.assets.get(id)
+        addChunks(store, rag_id, asset.file_name, chunkPages(asset.text))
+      }
+      sendJson(res, { success: true, rag_id, ingested: asset_ids.length }, fault)
+    }],
+
+    ['POST', /^\/v3\/parse\/([^/]+)\/?$/, async (req, res, _match, fault) => {
+      const form = await readFormData(req)
+      const file = form.get('file')
+      if (!file || typeof file === 'string') return send(res, 422, { detail: 'file is required' })
+
+      const chunkSize = Number(form.get('chunk_size')) || CHUNK_SIZE
+      const chunkOverlap = Number(form.get('chunk_overlap')) || CHUNK_OVERLAP
+      const text = await extractText(file.name, Buffer.from(await file.arrayBuffer()))
+      const documents = chunkPages(text, chunkSize, chunkOverlap).map((chunk) =>
+        toTrainingDocument(file.name, chunk)
+      )
+      sendJson(res, { documents }, fault)
+    }],
+
+    ['POST', /^\/v3\/rag\/train\/([^/]+)\/?$/, async (req, res, match, fault) => {
+      const documents = await readJsonBody(req)
+      if (!Array.isArray(documents)) return send(res, 422, { detail: 'Expected an array of documents' })
+
+      for (const doc of documents) {
+        const name = doc?.metadata?.source || doc?.metadata?.file_name || 'untitled.txt'
+        const page = Number(doc?.metadata?.page_number ?? doc?.metadata?.page) || 1
+        addChunks(store, match[1], name, [{ text: String(doc?.text || ''), page }])
+      }
+      sendJson(res, { success: true, trained: documents.length }, fault)
+    }],
+
+    ['GET', /^\/v3\/rag\/documents\/([^/]+)\/?$/, async (_req, res, match, fault) => {
+      const knowledgeBase = store.knowledgeBases.get(match[1])
+      if (!knowledgeBase || knowledgeBase.size === 0) return send(res, 404, { detail: 'No documents found' })
+      sendJson(res, [...knowledgeBase.keys()], fault)
+    }],
+
+    ['DELETE', /^\/v3\/rag\/([^/]+)\/docs\/?$/, async (req, res, match, fault) => {
+      const names = (await readJsonBody(req)) || []
+      const knowledgeBase = getKnowledgeBase(store, match[1])
+      names.forEach((name) => knowledgeBase.delete(storedName(name)))
+      sendJson(res, { success: true, deleted: names.length }, fault)
+    }],
+
+    ['GET', /^\/__mock\/config\/?$/, async (_req, res) => send(res, 200, config)],
+
+    ['POST', /^\/__mock\/config\/?$/, async (req, res) => {
+      const changes = (await readJsonBody(req)) || {}
+      if ('latencyMs' in changes) config.latencyMs = parseLatency(changes.latencyMs)
+      for (const key of ['errorRate', 'malformedRate', 'failNext']) {
+        if (key in changes) config[key] = Number(changes[key]) || 0
+      }
+      if ('apiKey' in changes) config.apiKey = String(changes.apiKey || '')
+      send(res, 200, config)
+    }],
+
+    ['POST', /^\/__mock\/reset\/?$/, async (_req, res) => {
+      store.assets.clear()
+      store.knowledgeBases.clear()
+      send(res, 200, { success: true })
+    }],
+
+    ['GET', /^\/__mock\/state\/?$/, async (_req, res) => {
+      const knowledgeBases = Object.fromEntries(
+        [...store.knowledgeBases].map(([ragId, base]) => [
+          ragId,
+          Object.fromEntries([...base].map(([name, chunks]) => [name, chunks.length])),
+        ])
+      )
+      send(res, 200, { assets: store.assets.size, knowledgeBases })
+    }],
+  ]
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://mock.local')
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS)
+      res.end()
+      return
+    }
+
+    const route = routes.find(([method, pattern]) => method === req.method && pattern.test(url.pathname))
+    if (!route) return send(res, 404, { detail: `No mock route for ${req.method} ${url.pathname}` })
+
+    const isControl = url.pathname.startsWith('/__mock')
+    const fault = url.searchParams.get('mock_fault') || req.headers['x-mock-fault'] || ''
+
+    try {
+      if (!isControl) {
+        const [min, max] = config.latencyMs
+        if (max > 0) await sleep(min + Math.random() * (max - min))
+
+        if (config.apiKey ? req.headers['x-api-key'] !== config.apiKey : !req.headers['x-api-key']) {
+          return send(res, 401, { detail: 'Invalid or missing x-api-key' })
+        }
+
+        if (config.failNext > 0) {
+          config.failNext -= 1
+          return send(res, 503, { detail: 'Injected failure (failNext)' }, { 'Retry-After': '1' })
+        }
+
+        switch (fault) {
+          case 'drop':
+            req.socket.destroy()
+            return
+          case 'hang':
+            // Never answer; the client's timeout has to fire
+            return
+          case '429':
+            return send(res, 429, { detail: 'Injected rate limit' }, { 'Retry-After': '2' })
+          case '404':
+          case '500':
+          case '503':
+            return send(res, Number(fault), { detail: `Injected ${fault}` })
+        }
+
+        if (!fault && Math.random() < config.errorRate) {
+          return send(res, 500, { detail: 'Injected random failure' })
+        }
+      }
+
+      await route[2](req, res, url.pathname.match(route[1]), fault)
+    } catch (error) {
+      console.error(`[mock] ${req.method} ${url.pathname} failed:`, error)
+      if (!res.headersSent) send(res, 400, { detail: error.message })
+    }
+  })
+}
+
+// Run directly: node scripts/mock-lyzr-server.mjs
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787
+  createMockLyzrServer().listen(port, () => {
+    console.log(`Mock Lyzr API on http://localhost:${port}/v3 - set it as both base URLs in Settings`)
+  })
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { ThumbsDown, ThumbsUp } from 'lucide-react'
+import { FEEDBACK_REASONS, type AnswerFeedbackInput } from '@/hooks/useAnswerFeedback'
+import { cn } from '@/lib/utils'
+import type { AnswerFeedback, FeedbackRating, FeedbackReason } from '@/types'
+
+interface AnswerFeedbackControlsProps {
+  /** Feedback already given on this answer */
+  feedback?: AnswerFeedback
+  onSubmit: (input: AnswerFeedbackInput) => void
+  onRemove: () => void
+}
+
+/**
+ * Thumbs up/down for an answer. A click records the rating right away and
+ * opens a popover for reasons (thumbs down) and a comment, which are saved
+ * however the popover closes - Save, a click outside or Escape.
+ */
+export function AnswerFeedbackControls({ feedback, onSubmit, onRemove }: AnswerFeedbackControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [rating, setRating] = useState<FeedbackRating>('up')
+  const [reasons, setReasons] = useState<FeedbackReason[]>([])
+  const [comment, setComment] = useState('')
+
+  // Start from the saved feedback each time the popover opens
+  useEffect(() => {
+    if (!open) return
+    setReasons(feedback?.rating === rating ? feedback.reasons : [])
+    setComment(feedback?.rating === rating ? feedback.comment : '')
+  }, [open, feedback, rating])
+
+  const handleRate = (next: FeedbackRating) => {
+    if (feedback?.rating !== next) onSubmit({ rating: next, reasons: [], comment: '' })
+    setRating(next)
+    setOpen(true)
+  }
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons((prev) => (prev.includes(reason) ? prev.filter((r) => r !== reason) : [...prev, reason]))
+  }
+
+  const saveDraft = () => {
+    const draft = { rating, reasons: rating === 'down' ? reasons : [], comment: comment.trim() }
+    const unchanged =
+      feedback?.rating === draft.rating &&
+      feedback.comment === draft.comment &&
+      feedback.reasons.length === draft.reasons.length &&
+      draft.reasons.every((reason) => feedback.reasons.includes(reason))
+    if (!unchanged) onSubmit(draft)
+  }
+
+  const handleSave = () => {
+    saveDraft()
+    setOpen(false)
+  }
+
+  // Closed by a click outside or Escape: keep what was entered
+  const handleOpenChange = (next: boolean) => {
+    if (!next && open) saveDraft()
+    setOpen(next)
+  }
+
+  const handleRemove = () => {
+    onRemove()
+    setOpen(false)
+  }
+
+  const ratingButton = (value: FeedbackRating) => {
+    const Icon = value === 'up' ? ThumbsUp : ThumbsDown
+    const active = feedback?.rating === value
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => handleRate(value)}
+        className={cn(
+          'h-8 w-8 p-0 hover:text-white',
+          active ? (value === 'up' ? 'text-green-400' : 'text-orange-400') : 'text-gray-400'
+        )}
+        title={value === 'up' ? 'Good answer' : 'Bad answer'}
+      >
+        <Icon className={cn('w-3 h-3', active && 'fill-current')} />
+      </Button>
+    )
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverAnchor asChild>
+        <div className="flex items-center">
+          {ratingButton('up')}
+          {ratingButton('down')}
+        </div>
+      </PopoverAnchor>
+      <PopoverContent align="end" className="w-72 bg-[#16162a] border-gray-700 text-white">
+        <p className="text-xs font-medium mb-2">
+          {rating === 'up' ? 'What was helpful?' : 'What was wrong with this answer?'}
+        </p>
+
+        {rating === 'down' && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {FEEDBACK_REASONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggleReason(value)}
+                className={cn(
+                  'px-2 py-0.5 rounded-full text-xs border transition-colors',
+                  reasons.includes(value)
+                    ? 'bg-orange-500/15 border-orange-500/50 text-orange-300'
+                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-600'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment (optional)"
+          className="mb-3 text-xs bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+        />
+
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRemove}
+            disabled={!feedback}
+            className="h-7 text-xs text-gray-400"
+          >
+            Remove rating
+          </Button>
+          <Button size="sm" onClick={handleSave} className="h-7 text-xs bg-indigo-600 hover:bg-indigo-700">
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default AnswerFeedbackControls
@@ -0,0 +1,304 @@
+import { useEffect, useRef, useState } from 'react'
+import * as pdfjsLib from 'pdfjs-dist'
+import type { PDFDocumentProxy, RenderTask, TextItem } from 'pdfjs-dist/types/src/display/api'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ChevronLeft, ChevronRight, FileText, Loader2, X, AlertCircle } from 'lucide-react'
+import type { SourceCitation } from '@/types'
+import { cn } from '@/lib/utils'
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+const RENDER_WIDTH = 440
+
+interface CitationViewerProps {
+  citation: SourceCitation
+  /** Locally held file for the cited document, if the user uploaded it in this tab */
+  file?: File
+  onClose: () => void
+  className?: string
+}
+
+interface HighlightRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase()
+
+/**
+ * Find a local file for a cited document name.
+ * The agent may report names with a storage/ prefix or without the extension.
+ */
+export function findLocalFile(files: Map<string, File>, documentName: string): File | undefined {
+  const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '')
+  const wanted = documentName.replace(/^storage\//, '').trim().toLowerCase()
+
+  for (const [name, file] of files) {
+    const candidate = name.toLowerCase()
+    if (candidate === wanted || stripExtension(candidate) === stripExtension(wanted)) {
+      return file
+    }
+  }
+  return undefined
+}
+
+/**
+ * Locate the excerpt in the page's text items and return the indices of the
+ * items it covers. Falls back to the excerpt's opening words when the
+ * full excerpt does not match (agents often trim or paraphrase the end).
+ */
+function findExcerptItems(items: TextItem[], excerpt: string): Set<number> {
+  const matched = new Set<number>()
+  const target = normalizeText(excerpt)
+  if (!target) return matched
+
+  // Build the page text with the offset range of each item
+  let pageText = ''
+  const ranges: Array<{ start: number; end: number }> = []
+  for (const item of items) {
+    const text = normalizeText(item.str)
+    const start = pageText.length
+    pageText += text + ' '
+    ranges.push({ start, end: start + text.length })
+  }
+
+  const candidates = [target, target.split(' ').slice(0, 8).join(' ')]
+  for (const candidate of candidates) {
+    const index = pageText.indexOf(candidate)
+    if (index === -1) continue
+
+    const end = index + candidate.length
+    ranges.forEach((range, i) => {
+      if (range.end > index && range.start < end && range.end > range.start) matched.add(i)
+    })
+    break
+  }
+
+  return matched
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+export function CitationViewer({ citation, file, onClose, className }: CitationViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Page render in progress, cancelled when the page or document changes
+  const renderTaskRef = useRef<RenderTask | null>(null)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = useState(citation.page_number || 1)
+  const [highlights, setHighlights] = useState<HighlightRect[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isPdf = !!file && (file.type === 'application/pdf' || /\.pdf$/i.test(file.name))
+
+  // Jump to the cited page whenever a different citation is opened
+  useEffect(() => {
+    setPageNumber(citation.page_number || 1)
+  }, [citation])
+
+  // Load the PDF from the local file
+  useEffect(() => {
+    if (!file || !isPdf) {
+      setPdf(null)
+      return
+    }
+
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    setLoading(true)
+    setError(null)
+
+    file
+      .arrayBuffer()
+      .then((data) => pdfjsLib.getDocument({ data }).promise)
+      .then((doc) => {
+        loaded = doc
+        if (cancelled) {
+          doc.destroy()
+          return
+        }
+        setPdf(doc)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to open PDF')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      // Never keep a destroyed document in state
+      setPdf(null)
+      loaded?.destroy()
+    }
+  }, [file, isPdf])
+
+  // Render the current page and highlight the excerpt on the cited page
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return
+
+    let cancelled = false
+    const canvas = canvasRef.current
+    const page = Math.min(Math.max(pageNumber, 1), pdf.numPages)
+
+    const render = async () => {
+      const pdfPage = await pdf.getPage(page)
+      if (cancelled) return
+      const baseViewport = pdfPage.getViewport({ scale: 1 })
+      const viewport = pdfPage.getViewport({ scale: RENDER_WIDTH / baseViewport.width })
+
+      canvas.width = viewport.width
+      canvas.height = viewport.height
+      const context = canvas.getContext('2d')
+      if (!context) return
+
+      const task = pdfPage.render({ canvasContext: context, viewport })
+      renderTaskRef.current = task
+      await task.promise
+      if (cancelled) return
+
+      if (page !== citation.page_number || !citation.excerpt) {
+        setHighlights([])
+        return
+      }
+
+      const textContent = await pdfPage.getTextContent()
+      if (cancelled) return
+
+      const items = textContent.items.filter((item): item is TextItem => 'str' in item)
+      const matched = findExcerptItems(items, citation.excerpt)
+
+      setHighlights(
+        items
+          .filter((_, i) => matched.has(i))
+          .map((item) => {
+            const tx = pdfjsLib.Util.transform(viewport.transform, item.transform)
+            const height = Math.hypot(tx[2], tx[3])
+            return {
+              left: tx[4],
+              top: tx[5] - height,
+              width: item.width * viewport.scale,
+              height,
+            }
+          })
+      )
+    }
+
+    render().catch((err) => {
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render page')
+    })
+
+    return () => {
+      cancelled = true
+      renderTaskRef.current?.cancel()
+      renderTaskRef.current = null
+    }
+  }, [pdf, pageNumber, citation])
+
+  return (
+    <div className={cn('h-full flex flex-col bg-[#16162a]', className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-800 flex items-start gap-2">
+        <Badge variant="outline" className="shrink-0">
+          {citation.citation_number}
+        </Badge>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white font-medium truncate">{citation.document_name}</p>
+          <p className="text-xs text-gray-500">Page {citation.page_number}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4">
+          {/* Excerpt */}
+          {citation.excerpt && (
+            <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <p className="text-xs text-gray-500 mb-1">Cited excerpt</p>
+              <p className="text-sm text-gray-200">"{citation.excerpt}"</p>
+            </div>
+          )}
+
+          {/* Document */}
+          {!file ? (
+            <div className="text-center py-8">
+              <FileText className="w-10 h-10 text-gray-600 mx-auto mb-3" />
+              <p className="text-xs text-gray-500">
+                This document is not available locally. Upload it in this tab to view the page.
+              </p>
+            </div>
+          ) : !isPdf ? (
+            <div className="text-center py-8">
+              <FileText className="w-10 h-10 text-gray-600 mx-auto mb-3" />
+              <p className="text-xs text-gray-500">Preview is only available for PDF documents.</p>
+            </div>
+          ) : error ? (
+            <div className="flex items-center gap-2 text-xs text-red-400 py-4">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          ) : (
+            <div>
+              {pdf && (
+                <div className="flex items-center justify-between mb-3">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPageNumber((p) => Math.max(p - 1, 1))}
+                    disabled={pageNumber <= 1}
+                    className="h-7 text-xs text-gray-400 hover:text-white"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </Button>
+                  <span className="text-xs text-gray-400">
+                    Page {pageNumber} of {pdf.numPages}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPageNumber((p) => Math.min(p + 1, pdf.numPages))}
+                    disabled={pageNumber >= pdf.numPages}
+                    className="h-7 text-xs text-gray-400 hover:text-white"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+              {loading && (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-5 h-5 animate-spin text-indigo-400" />
+                </div>
+              )}
+              <div className="relative mx-auto" style={{ width: RENDER_WIDTH }}>
+                <canvas ref={canvasRef} className="block rounded bg-white" />
+                {highlights.map((rect, i) => (
+                  <div
+                    key={i}
+                    className="absolute bg-yellow-400/40 rounded-sm pointer-events-none"
+                    style={rect}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default CitationViewer
@@ -0,0 +1,181 @@
+import { useState, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { MessageSquare, Plus, Pencil, Trash2, Search, Check, X } from 'lucide-react'
+import { searchConversations, type StoredConversation } from '@/lib/conversation-store'
+import { cn } from '@/lib/utils'
+
+interface ConversationSidebarProps {
+  conversations: StoredConversation[]
+  activeId: string
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  className?: string
+}
+
+function formatRelativeDate(date: Date) {
+  const diffMs = Date.now() - date.getTime()
+  const minutes = Math.floor(diffMs / 60000)
+  if (minutes < 1) return 'Just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  const days = Math.floor(hours / 24)
+  if (days < 7) return `${days}d ago`
+  return date.toLocaleDateString()
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  className,
+}: ConversationSidebarProps) {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState('')
+
+  const matches = useMemo(() => {
+    const sorted = [...conversations].sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    )
+    return searchConversations(sorted, searchQuery)
+  }, [conversations, searchQuery])
+
+  const startEditing = (conversation: StoredConversation) => {
+    setEditingId(conversation.id)
+    setEditValue(conversation.title)
+  }
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, editValue)
+    setEditingId(null)
+  }
+
+  const handleDelete = (conversation: StoredConversation) => {
+    if (!confirm(`Delete "${conversation.title || 'New conversation'}"?`)) return
+    onDelete(conversation.id)
+  }
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Header */}
+      <div className="p-4 border-b border-gray-800">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-semibold text-white">Conversations</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCreate}
+            className="h-7 w-7 p-0 text-gray-400 hover:text-white"
+            title="New conversation"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="relative">
+          <Search className="w-3 h-3 text-gray-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search conversations..."
+            className="h-8 pl-7 text-xs bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+          />
+        </div>
+      </div>
+
+      {/* Conversation List */}
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {matches.length === 0 ? (
+            <p className="text-xs text-gray-500 text-center py-6">No matching conversations</p>
+          ) : (
+            matches.map(({ conversation, snippet }) => (
+              <div
+                key={conversation.id}
+                onClick={() => editingId !== conversation.id && onSelect(conversation.id)}
+                className={cn(
+                  'group p-2 rounded-lg cursor-pointer border transition-colors',
+                  conversation.id === activeId
+                    ? 'bg-indigo-500/10 border-indigo-500/40'
+                    : 'border-transparent hover:bg-gray-800/50'
+                )}
+              >
+                {editingId === conversation.id ? (
+                  <div className="flex items-center gap-1">
+                    <Input
+                      autoFocus
+                      value={editValue}
+                      onChange={(e) => setEditValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing()
+                        if (e.key === 'Escape') setEditingId(null)
+                      }}
+                      className="h-7 text-xs bg-gray-800 border-gray-700 text-white"
+                    />
+                    <button onClick={commitEditing} className="text-gray-400 hover:text-green-400">
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <MessageSquare className="w-3 h-3 text-gray-500 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-gray-300 font-medium truncate">
+                        {conversation.title || 'New conversation'}
+                      </p>
+                      {snippet && (
+                        <p className="text-xs text-gray-500 truncate mt-0.5">{snippet}</p>
+                      )}
+                      <p className="text-[10px] text-gray-600 mt-0.5">
+                        {formatRelativeDate(conversation.updatedAt)}
+                        {conversation.messages.length > 0 &&
+                          ` · ${conversation.messages.length} messages`}
+                      </p>
+                    </div>
+                    <div className="hidden group-hover:flex items-center gap-1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          startEditing(conversation)
+                        }}
+                        className="text-gray-500 hover:text-white transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDelete(conversation)
+                        }}
+                        className="text-gray-500 hover:text-red-400 transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default ConversationSidebar
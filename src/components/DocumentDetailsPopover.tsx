@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tag } from 'lucide-react'
+import { parseLabels } from '@/hooks/useDocumentManifest'
+import type { DocumentManifestEntry } from '@/types'
+
+interface DocumentDetailsPopoverProps {
+  fileName: string
+  entry?: DocumentManifestEntry
+  onSave: (changes: { tags: string[]; collections: string[] }) => void
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function DocumentDetailsPopover({ fileName, entry, onSave }: DocumentDetailsPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [tags, setTags] = useState('')
+  const [collections, setCollections] = useState('')
+
+  // Start from the saved labels each time the popover opens
+  useEffect(() => {
+    if (!open) return
+    setTags(entry?.tags.join(', ') ?? '')
+    setCollections(entry?.collections.join(', ') ?? '')
+  }, [open, entry])
+
+  const handleSave = () => {
+    onSave({ tags: parseLabels(tags), collections: parseLabels(collections) })
+    setOpen(false)
+  }
+
+  const details: Array<[string, string]> = entry
+    ? [
+        ['Size', entry.size ? formatSize(entry.size) : '—'],
+        ['Uploaded', new Date(entry.uploadDate).toLocaleString()],
+        ['Uploader', entry.uploader],
+        // PDF, DOCX and TXT are chunked by the Lyzr ingest API, which does not report a count
+        ['Chunks', entry.chunkCount !== undefined ? String(entry.chunkCount) : 'Unknown'],
+        ['SHA-256', entry.hash ? `${entry.hash.slice(0, 16)}…` : '—'],
+      ]
+    : []
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="text-gray-500 hover:text-indigo-400 transition-colors"
+          title="Details, tags and collections"
+        >
+          <Tag className="w-3 h-3" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-72 bg-[#16162a] border-gray-700 text-white"
+        onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+      >
+        <p className="text-xs font-medium truncate mb-2">{fileName}</p>
+
+        {details.length > 0 ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs mb-3">
+            {details.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-300 truncate" title={value}>
+                  {value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-xs text-gray-500 mb-3">
+            Not uploaded from this browser - only the file name is known.
+          </p>
+        )}
+
+        <label className="text-xs text-gray-400">Tags</label>
+        <Input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="finance, q3, draft"
+          className="h-8 mt-1 mb-2 text-xs bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+        />
+        <label className="text-xs text-gray-400">Collections</label>
+        <Input
+          value={collections}
+          onChange={(e) => setCollections(e.target.value)}
+          placeholder="Annual reports"
+          className="h-8 mt-1 mb-3 text-xs bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+        />
+        <p className="text-[10px] text-gray-500 mb-2">Separate multiple values with commas.</p>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)} className="h-7 text-xs">
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} className="h-7 text-xs bg-indigo-600 hover:bg-indigo-700">
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default DocumentDetailsPopover
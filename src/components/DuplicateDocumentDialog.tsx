@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { DuplicateMatch } from '@/lib/document-hash'
+
+export type DuplicateResolution = 'skip' | 'replace' | 'keep-both'
+
+interface DuplicateDocumentDialogProps {
+  /** Incoming file name and the document it duplicates; null closes the dialog */
+  pending: { fileName: string; match: DuplicateMatch } | null
+  /** Duplicates still waiting for a decision after this one */
+  remaining: number
+  onResolve: (resolution: DuplicateResolution, applyToRemaining: boolean) => void
+}
+
+export function DuplicateDocumentDialog({
+  pending,
+  remaining,
+  onResolve,
+}: DuplicateDocumentDialogProps) {
+  const [applyToRemaining, setApplyToRemaining] = useState(false)
+
+  // Each batch of uploads starts unticked
+  useEffect(() => {
+    if (!pending) setApplyToRemaining(false)
+  }, [pending])
+
+  const resolve = (resolution: DuplicateResolution) => onResolve(resolution, applyToRemaining)
+
+  const existing = pending?.match.document
+
+  return (
+    <AlertDialog open={pending !== null} onOpenChange={(open) => !open && resolve('skip')}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Document already in the knowledge base</AlertDialogTitle>
+          <AlertDialogDescription>
+            {pending?.match.reason === 'content'
+              ? `"${pending.fileName}" has the same content as "${existing?.name}".`
+              : `A document named "${existing?.name}" is already in the knowledge base.`}{' '}
+            Uploading it again duplicates its chunks and skews the sources cited in answers.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {remaining > 0 && (
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Checkbox
+              checked={applyToRemaining}
+              onCheckedChange={(checked) => setApplyToRemaining(checked === true)}
+            />
+            Apply to the {remaining} other duplicate{remaining > 1 ? 's' : ''}
+          </label>
+        )}
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => resolve('skip')}>
+            Skip
+          </Button>
+          <Button variant="outline" onClick={() => resolve('keep-both')}>
+            Keep both
+          </Button>
+          <Button onClick={() => resolve('replace')}>Replace</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default DuplicateDocumentDialog
@@ -1,20 +1,73 @@
 'use client'
 
 import * as React from 'react'
-import { useRAGKnowledgeBase, SUPPORTED_FILE_TYPES, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import { useRAGKnowledgeBase, validateFile, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import {
+  DEFAULT_CHUNKING_OPTIONS,
+  getAcceptedFileExtensions,
+  getSupportedFormatLabels,
+  normalizeChunkingOptions,
+  type ChunkingOptions,
+  type ChunkingStrategy,
+  type RAGTrainingDocument,
+} from '@/utils/documentParsers'
 import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createUploadProgress,
+  describeUploadProgress,
+  type UploadProgress,
+} from '@/lib/upload-progress'
 import { cn } from '@/lib/utils'
 
 interface KnowledgeBaseUploadProps {
   ragId: string
   className?: string
+  /** Initial chunking settings shown in the form */
+  defaultChunking?: Partial<ChunkingOptions>
+  /** Show parsed chunks and wait for confirmation before training (default true) */
+  previewBeforeTraining?: boolean
   onUploadSuccess?: (document: { documentId?: string; documentCount?: number }) => void
   onDeleteSuccess?: (fileName: string) => void
 }
 
+interface FileProgress {
+  fileName: string
+  progress: UploadProgress
+}
+
+interface ChunkPreview {
+  file: File
+  chunks: RAGTrainingDocument[]
+  chunking: ChunkingOptions
+}
+
+const STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  fixed: 'Fixed size',
+  sentence: 'Sentence',
+  heading: 'Heading-aware',
+}
+
+// Where a chunk came from, e.g. "page 3" or "Methods"
+function describeChunkOrigin(chunk: RAGTrainingDocument) {
+  const { page_label, section } = chunk.metadata || {}
+  return [page_label && `page ${page_label}`, section].filter(Boolean).join(' · ')
+}
+
 export function KnowledgeBaseUpload({
   ragId,
   className,
+  defaultChunking,
+  previewBeforeTraining = true,
   onUploadSuccess,
   onDeleteSuccess,
 }: KnowledgeBaseUploadProps) {
@@ -24,11 +77,19 @@ export function KnowledgeBaseUpload({
     error,
     fetchDocuments,
     uploadDocument,
+    previewDocument,
+    trainDocument,
     removeDocuments,
   } = useRAGKnowledgeBase()
 
   const [isDragging, setIsDragging] = React.useState(false)
   const [uploadProgress, setUploadProgress] = React.useState<string | null>(null)
+  const [fileProgress, setFileProgress] = React.useState<FileProgress | null>(null)
+  const [chunking, setChunking] = React.useState<ChunkingOptions>({
+    ...DEFAULT_CHUNKING_OPTIONS,
+    ...defaultChunking,
+  })
+  const [preview, setPreview] = React.useState<ChunkPreview | null>(null)
   const fileInputRef = React.useRef<HTMLInputElement>(null)
 
   React.useEffect(() => {
@@ -66,17 +127,27 @@ export function KnowledgeBaseUpload({
   }
 
   const handleFileUpload = async (file: File) => {
-    if (!SUPPORTED_FILE_TYPES.includes(file.type as typeof SUPPORTED_FILE_TYPES[number])) {
-      alert('Unsupported file type. Please upload PDF, DOCX, or TXT files.')
+    const validation = validateFile(file)
+    if (!validation.isValid) {
+      alert(validation.error)
+      return
+    }
+
+    if (previewBeforeTraining) {
+      await loadPreview(file)
       return
     }
 
     setUploadProgress(`Uploading ${file.name}...`)
 
-    const result = await uploadDocument(ragId, file)
+    const result = await uploadDocument(ragId, file, {
+      chunking,
+      onProgress: trackProgress(file),
+    })
 
     if (result.success) {
       setUploadProgress(null)
+      setFileProgress(null)
       await fetchDocuments(ragId)
       onUploadSuccess?.({ documentId: result.documentId, documentCount: result.documentCount })
     } else {
@@ -85,6 +156,62 @@ export function KnowledgeBaseUpload({
     }
   }
 
+  // Progress callback for one file; failures stay visible until the next upload
+  const trackProgress = (file: File) => {
+    setFileProgress({
+      fileName: file.name,
+      progress: createUploadProgress('uploading', { bytesSent: 0, totalBytes: file.size }),
+    })
+    return (progress: UploadProgress) => setFileProgress({ fileName: file.name, progress })
+  }
+
+  const loadPreview = async (file: File) => {
+    setUploadProgress(`Parsing ${file.name}...`)
+
+    const result = await previewDocument(file, { chunking, onProgress: trackProgress(file) })
+
+    setUploadProgress(null)
+    if (result.success && result.documents && result.chunking) {
+      setFileProgress(null)
+      setPreview({ file, chunks: result.documents, chunking: result.chunking })
+    } else {
+      setPreview(null)
+      alert(result.error || 'Parsing failed')
+    }
+  }
+
+  const handleConfirmTraining = async () => {
+    if (!preview) return
+
+    setUploadProgress(`Training on ${preview.file.name}...`)
+
+    const result = await trainDocument(ragId, preview.file, preview.chunks, {
+      onProgress: (progress) => setFileProgress({ fileName: preview.file.name, progress }),
+    })
+
+    setUploadProgress(null)
+    if (result.success) {
+      setFileProgress(null)
+      setPreview(null)
+      await fetchDocuments(ragId)
+      onUploadSuccess?.({ documentId: result.documentId, documentCount: result.documentCount })
+    } else {
+      alert(result.error || 'Training failed')
+    }
+  }
+
+  const updateChunking = (update: Partial<ChunkingOptions>) => {
+    setChunking((prev) => ({ ...prev, ...update }))
+  }
+
+  // Settings changed since the preview was generated (compared after clamping)
+  const effectiveChunking = normalizeChunkingOptions(chunking)
+  const previewIsStale =
+    !!preview &&
+    (preview.chunking.chunkSize !== effectiveChunking.chunkSize ||
+      preview.chunking.chunkOverlap !== effectiveChunking.chunkOverlap ||
+      preview.chunking.strategy !== effectiveChunking.strategy)
+
   const handleDelete = async (fileName: string) => {
     if (!confirm(`Delete "${fileName}"?`)) return
 
@@ -122,6 +249,53 @@ export function KnowledgeBaseUpload({
 
   return (
     <div className={cn('w-full space-y-4', className)}>
+      {/* Chunking Options */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="chunk-size" className="text-xs">Chunk size</Label>
+          <Input
+            id="chunk-size"
+            type="number"
+            min={100}
+            step={100}
+            value={chunking.chunkSize}
+            onChange={(e) => updateChunking({ chunkSize: Number(e.target.value) })}
+            disabled={loading}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="chunk-overlap" className="text-xs">Overlap</Label>
+          <Input
+            id="chunk-overlap"
+            type="number"
+            min={0}
+            step={10}
+            value={chunking.chunkOverlap}
+            onChange={(e) => updateChunking({ chunkOverlap: Number(e.target.value) })}
+            disabled={loading}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Strategy</Label>
+          <Select
+            value={chunking.strategy}
+            onValueChange={(value) => updateChunking({ strategy: value as ChunkingStrategy })}
+            disabled={loading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STRATEGY_LABELS) as ChunkingStrategy[]).map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       {/* Upload Area */}
       <div
           onDragOver={handleDragOver}
@@ -138,7 +312,7 @@ export function KnowledgeBaseUpload({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt"
+            accept={getAcceptedFileExtensions()}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -159,10 +333,74 @@ export function KnowledgeBaseUpload({
             {uploadProgress || 'Drag & drop or click to upload'}
           </p>
           <p className="mt-1 text-xs text-muted-foreground">
-            PDF, DOCX, TXT supported
+            {getSupportedFormatLabels()} supported
           </p>
         </div>
 
+        {/* Upload Progress */}
+        {fileProgress && (
+          <div className="space-y-1 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium truncate">{fileProgress.fileName}</span>
+              <span
+                className={cn(
+                  'shrink-0',
+                  fileProgress.progress.stage === 'failed'
+                    ? 'text-destructive'
+                    : 'text-muted-foreground'
+                )}
+              >
+                {describeUploadProgress(fileProgress.progress)}
+              </span>
+            </div>
+            <Progress value={fileProgress.progress.percent} className="h-1.5" />
+          </div>
+        )}
+
+        {/* Chunk Preview */}
+        {preview && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{preview.file.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {preview.chunks.length} chunks · {STRATEGY_LABELS[preview.chunking.strategy]},{' '}
+                  {preview.chunking.chunkSize} chars, {preview.chunking.chunkOverlap} overlap
+                </p>
+              </div>
+              {previewIsStale && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadPreview(preview.file)}
+                  disabled={loading}
+                >
+                  Re-chunk
+                </Button>
+              )}
+            </div>
+            <div className="max-h-72 overflow-y-auto divide-y rounded-md border">
+              {preview.chunks.map((chunk, index) => (
+                <div key={chunk.id_} className="p-2">
+                  <p className="text-xs text-muted-foreground">
+                    #{index + 1} · {chunk.text.length} chars
+                    {describeChunkOrigin(chunk) && ` · ${describeChunkOrigin(chunk)}`}
+                  </p>
+                  <p className="text-xs whitespace-pre-wrap line-clamp-4">{chunk.text}</p>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setPreview(null)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleConfirmTraining} disabled={loading || previewIsStale}>
+                Train {preview.chunks.length} chunks
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
@@ -0,0 +1,156 @@
+import { AtSign, FileText, Layers, X } from 'lucide-react'
+import { isScopeEmpty, type SearchScope } from '@/lib/search-scope'
+import { cn } from '@/lib/utils'
+
+const MAX_SUGGESTIONS = 6
+
+interface SearchScopeBarProps {
+  /** Scope picked in the sidebar; persists across questions */
+  scope: SearchScope
+  /** Scope @-mentioned in the current input; applies to that question only */
+  mentioned: SearchScope
+  /** Documents the combined scope resolves to */
+  documentCount: number
+  /** Partial @-mention being typed, or null */
+  activeMention: string | null
+  /** Everything that can be mentioned */
+  available: { documents: string[]; collections: string[] }
+  onRemove: (kind: keyof SearchScope, name: string) => void
+  onClear: () => void
+  onPickMention: (name: string) => void
+}
+
+function ScopeChip({
+  kind,
+  name,
+  mentioned,
+  onRemove,
+}: {
+  kind: keyof SearchScope
+  name: string
+  mentioned?: boolean
+  onRemove?: () => void
+}) {
+  const Icon = mentioned ? AtSign : kind === 'collections' ? Layers : FileText
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 max-w-[200px] px-2 py-0.5 rounded-full text-xs border',
+        kind === 'collections'
+          ? 'bg-indigo-500/15 border-indigo-500/30 text-indigo-300'
+          : 'bg-gray-800 border-gray-700 text-gray-300'
+      )}
+      title={kind === 'collections' ? `Collection: ${name}` : name}
+    >
+      <Icon className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate">{name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-gray-500 hover:text-white transition-colors"
+          title="Remove from scope"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  )
+}
+
+export function SearchScopeBar({
+  scope,
+  mentioned,
+  documentCount,
+  activeMention,
+  available,
+  onRemove,
+  onClear,
+  onPickMention,
+}: SearchScopeBarProps) {
+  const needle = activeMention?.toLowerCase() ?? ''
+  const suggestions =
+    activeMention === null
+      ? []
+      : [
+          ...available.collections.map((name) => ({ kind: 'collections' as const, name })),
+          ...available.documents.map((name) => ({ kind: 'documents' as const, name })),
+        ]
+          .filter(({ name }) => name.toLowerCase().includes(needle))
+          .slice(0, MAX_SUGGESTIONS)
+
+  const hasScope = !isScopeEmpty(scope) || !isScopeEmpty(mentioned)
+  if (!hasScope && suggestions.length === 0) return null
+
+  return (
+    <div className="mb-2 space-y-2">
+      {suggestions.length > 0 && (
+        <div className="rounded-lg border border-gray-700 bg-[#1a1a2e] py-1">
+          {suggestions.map(({ kind, name }) => (
+            <button
+              key={`${kind}-${name}`}
+              type="button"
+              onClick={() => onPickMention(name)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-gray-300 hover:bg-gray-800 text-left"
+            >
+              {kind === 'collections' ? (
+                <Layers className="w-3 h-3 text-indigo-400" />
+              ) : (
+                <FileText className="w-3 h-3 text-gray-500" />
+              )}
+              <span className="truncate">{name}</span>
+              {kind === 'collections' && (
+                <span className="ml-auto text-[10px] text-gray-500">collection</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {hasScope && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span
+            className={cn('text-xs', documentCount === 0 ? 'text-red-400' : 'text-gray-500')}
+          >
+            {documentCount === 0
+              ? 'No uploaded documents in scope'
+              : `Searching ${documentCount} document${documentCount === 1 ? '' : 's'}:`}
+          </span>
+          {scope.collections.map((name) => (
+            <ScopeChip
+              key={`c-${name}`}
+              kind="collections"
+              name={name}
+              onRemove={() => onRemove('collections', name)}
+            />
+          ))}
+          {scope.documents.map((name) => (
+            <ScopeChip
+              key={`d-${name}`}
+              kind="documents"
+              name={name}
+              onRemove={() => onRemove('documents', name)}
+            />
+          ))}
+          {mentioned.collections.map((name) => (
+            <ScopeChip key={`mc-${name}`} kind="collections" name={name} mentioned />
+          ))}
+          {mentioned.documents.map((name) => (
+            <ScopeChip key={`md-${name}`} kind="documents" name={name} mentioned />
+          ))}
+          {!isScopeEmpty(scope) && (
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-xs text-gray-500 hover:text-white transition-colors"
+            >
+              Clear scope
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SearchScopeBar
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Eye, EyeOff } from 'lucide-react'
+import { useRuntimeConfig } from '@/hooks/useRuntimeConfig'
+import {
+  DEFAULT_AGENT_BASE_URL,
+  DEFAULT_RAG_BASE_URL,
+  DEFAULT_UPLOADER_NAME,
+  normalizeBaseUrl,
+  validateBaseUrl,
+} from '@/lib/runtime-config'
+import type { WorkspaceOption } from '@/lib/workspace-config'
+
+interface SettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Agent/RAG pairs to pick the default from */
+  workspaceOptions: WorkspaceOption[]
+  /** Pair chosen as the default, if any */
+  defaultWorkspaceId?: string
+}
+
+const API_KEY_SOURCE_LABELS = {
+  settings: 'Using the key saved in this browser.',
+  environment: 'Using VITE_LYZR_API_KEY from the build. A key saved here takes precedence.',
+  none: 'No key configured - searches and uploads will fail until one is set.',
+}
+
+export function SettingsDialog({
+  open,
+  onOpenChange,
+  workspaceOptions,
+  defaultWorkspaceId,
+}: SettingsDialogProps) {
+  const { config, settings, saveSettings } = useRuntimeConfig()
+
+  const [apiKey, setApiKey] = useState('')
+  const [showApiKey, setShowApiKey] = useState(false)
+  const [agentBaseUrl, setAgentBaseUrl] = useState('')
+  const [ragBaseUrl, setRagBaseUrl] = useState('')
+  const [workspaceId, setWorkspaceId] = useState('')
+  const [uploaderName, setUploaderName] = useState('')
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setApiKey(settings.apiKey ?? '')
+    setShowApiKey(false)
+    setAgentBaseUrl(settings.agentBaseUrl ?? '')
+    setRagBaseUrl(settings.ragBaseUrl ?? '')
+    setWorkspaceId(defaultWorkspaceId ?? '')
+    setUploaderName(settings.uploaderName ?? '')
+  }, [open, settings, defaultWorkspaceId])
+
+  const agentUrlError = validateBaseUrl(agentBaseUrl)
+  const ragUrlError = validateBaseUrl(ragBaseUrl)
+
+  const handleSave = () => {
+    if (agentUrlError || ragUrlError) return
+
+    const workspace = workspaceOptions.find((option) => option.id === workspaceId)
+    saveSettings({
+      apiKey: apiKey.trim() || undefined,
+      agentBaseUrl: normalizeBaseUrl(agentBaseUrl) || undefined,
+      ragBaseUrl: normalizeBaseUrl(ragBaseUrl) || undefined,
+      defaultBinding: workspace
+        ? { agent_id: workspace.agent_id, rag_id: workspace.rag_id }
+        : settings.defaultBinding,
+      uploaderName: uploaderName.trim() || undefined,
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-[#16162a] border-gray-700 text-white">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Stored in this browser only. Changes apply to the next request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="settings-api-key" className="text-xs text-gray-400">
+              Lyzr API key
+            </Label>
+            <div className="relative mt-1">
+              <Input
+                id="settings-api-key"
+                type={showApiKey ? 'text' : 'password'}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={config.apiKeySource === 'environment' ? 'From environment' : 'sk-...'}
+                autoComplete="off"
+                className="pr-10 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+              />
+              <button
+                type="button"
+                onClick={() => setShowApiKey(!showApiKey)}
+                className="absolute right-3 top-2.5 text-gray-500 hover:text-white transition-colors"
+                title={showApiKey ? 'Hide key' : 'Show key'}
+              >
+                {showApiKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
+            <p className="text-[11px] text-gray-500 mt-1">
+              {API_KEY_SOURCE_LABELS[config.apiKeySource]}
+            </p>
+          </div>
+
+          <div>
+            <Label htmlFor="settings-agent-url" className="text-xs text-gray-400">
+              Agent API base URL
+            </Label>
+            <Input
+              id="settings-agent-url"
+              value={agentBaseUrl}
+              onChange={(e) => setAgentBaseUrl(e.target.value)}
+              placeholder={DEFAULT_AGENT_BASE_URL}
+              className="mt-1 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+            />
+            {agentUrlError ? (
+              <p className="text-[11px] text-red-400 mt-1">{agentUrlError}</p>
+            ) : (
+              <p className="text-[11px] text-gray-500 mt-1">
+                Chat, streaming, file upload and ingest. Leave empty for the default.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="settings-rag-url" className="text-xs text-gray-400">
+              RAG API base URL
+            </Label>
+            <Input
+              id="settings-rag-url"
+              value={ragBaseUrl}
+              onChange={(e) => setRagBaseUrl(e.target.value)}
+              placeholder={DEFAULT_RAG_BASE_URL}
+              className="mt-1 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+            />
+            {ragUrlError ? (
+              <p className="text-[11px] text-red-400 mt-1">{ragUrlError}</p>
+            ) : (
+              <p className="text-[11px] text-gray-500 mt-1">
+                Document parsing, training, listing and deletion.
+              </p>
+            )}
+          </div>
+
+          {workspaceOptions.length > 0 && (
+            <div>
+              <Label className="text-xs text-gray-400">Default agent</Label>
+              <Select value={workspaceId} onValueChange={setWorkspaceId}>
+                <SelectTrigger className="mt-1 bg-gray-800 border-gray-700 text-white">
+                  <SelectValue placeholder="Last used agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaceOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.agent.agent_name} · {option.knowledgeBase.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[11px] text-gray-500 mt-1">
+                New conversations start with this agent and knowledge base; without one,
+                with the last one switched to.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="settings-uploader" className="text-xs text-gray-400">
+              Your name
+            </Label>
+            <Input
+              id="settings-uploader"
+              value={uploaderName}
+              onChange={(e) => setUploaderName(e.target.value)}
+              placeholder={DEFAULT_UPLOADER_NAME}
+              className="mt-1 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500"
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              Shown as the uploader of the documents you add.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={Boolean(agentUrlError || ragUrlError)}
+            className="bg-indigo-600 hover:bg-indigo-700"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SettingsDialog
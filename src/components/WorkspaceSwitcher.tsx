@@ -0,0 +1,71 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Bot, Database } from 'lucide-react'
+import type { WorkspaceOption } from '@/lib/workspace-config'
+
+interface WorkspaceSwitcherProps {
+  options: WorkspaceOption[]
+  activeId: string
+  onSelect: (option: WorkspaceOption) => void
+  /** Reason switching is unavailable (e.g. uploads in progress); disables the switcher */
+  disabledReason?: string
+}
+
+export function WorkspaceSwitcher({
+  options,
+  activeId,
+  onSelect,
+  disabledReason,
+}: WorkspaceSwitcherProps) {
+  const active = options.find((option) => option.id === activeId)
+
+  // Nothing to switch between
+  if (options.length <= 1) {
+    return active ? (
+      <div className="flex items-center gap-1.5 text-xs text-gray-500">
+        <Bot className="w-3 h-3" />
+        {active.agent.agent_name}
+      </div>
+    ) : null
+  }
+
+  return (
+    <div title={disabledReason}>
+      <Select
+        value={activeId}
+        disabled={Boolean(disabledReason)}
+        onValueChange={(id) => {
+          const option = options.find((o) => o.id === id)
+          if (option) onSelect(option)
+        }}
+      >
+        <SelectTrigger className="h-8 w-[260px] text-xs bg-gray-800 border-gray-700 text-gray-300">
+          <SelectValue placeholder="Select an agent" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              <div className="flex flex-col text-left">
+                <span className="flex items-center gap-1.5">
+                  <Bot className="w-3 h-3" />
+                  {option.agent.agent_name}
+                </span>
+                <span className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                  <Database className="w-3 h-3" />
+                  {option.knowledgeBase.name}
+                </span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export default WorkspaceSwitcher
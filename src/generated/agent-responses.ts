@@ -0,0 +1,69 @@
+/**
+ * Agent Response Types and Validators
+ *
+ * GENERATED by scripts/generate-response-schemas.mjs from response_schemas/ -
+ * do not edit by hand. Run `npm run generate:schemas` after changing a schema.
+ */
+
+import { z } from 'zod'
+
+// -----------------------------------------------------------------------------
+// Knowledge Search Agent (response_schemas/knowledge_search_agent_response.json)
+// -----------------------------------------------------------------------------
+
+export interface KnowledgeSearchAgentResponse {
+  status: string
+  result: {
+    answer: string
+    sources: unknown[]
+    confidence: number
+    related_questions: string[]
+  }
+  metadata: {
+    agent_name: string
+    timestamp: string
+  }
+}
+
+export type KnowledgeSearchAgentResult = KnowledgeSearchAgentResponse['result']
+
+export const knowledgeSearchAgentResponseSchema = z.object({
+  status: z.string(),
+  result: z.object({
+    answer: z.string(),
+    sources: z.array(z.unknown()),
+    confidence: z.number(),
+    related_questions: z.array(z.string()),
+  }),
+  metadata: z.object({
+    agent_name: z.string(),
+    timestamp: z.string(),
+  }),
+})
+
+export const knowledgeSearchAgentResultSchema = knowledgeSearchAgentResponseSchema.shape.result
+
+// -----------------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------------
+
+export interface GeneratedResponseSchema {
+  agentName: string
+  agentId: string
+  /** Whole response: status, result, metadata */
+  response: z.ZodType
+  /** The response's `result` object, if the schema declares one */
+  result: z.ZodType | null
+}
+
+/**
+ * Keyed by the schema file path (AgentConfig.response_schema_file)
+ */
+export const GENERATED_RESPONSE_SCHEMAS: Record<string, GeneratedResponseSchema> = {
+  'response_schemas/knowledge_search_agent_response.json': {
+    agentName: 'Knowledge Search Agent',
+    agentId: '6964a295ee6d749fb303a7b7',
+    response: knowledgeSearchAgentResponseSchema,
+    result: knowledgeSearchAgentResultSchema,
+  },
+}
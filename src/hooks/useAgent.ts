@@ -16,6 +16,7 @@
 import { useState, useCallback } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
 import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { getAgentApiUrl, getRuntimeConfig } from '@/lib/runtime-config'
 
 // =============================================================================
 // Types
@@ -81,7 +82,8 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  // The endpoint callAIAgent sends to, with the configured base URL
+  endpoint: getAgentApiUrl('/inference/chat/'),
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -125,7 +127,11 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
     const { message, agentId, userId, sessionId } = callOptions
-    const finalAgentId = agentId || options.agentId || import.meta.env.VITE_AGENT_ID
+    const finalAgentId =
+      agentId ||
+      options.agentId ||
+      getRuntimeConfig().defaultBinding?.agent_id ||
+      import.meta.env.VITE_AGENT_ID
 
     if (!finalAgentId) {
       const err = createErrorDetails('api_error', 'No agent_id provided')
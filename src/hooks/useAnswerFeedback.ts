@@ -0,0 +1,116 @@
+/**
+ * useAnswerFeedback Hook
+ *
+ * Thumbs up/down ratings of answers, with reason categories and a comment,
+ * kept in a local log (IndexedDB) together with the query, session,
+ * confidence and sources behind each answer. Rating an answer again
+ * replaces its entry. The log exports as JSONL - one entry per line - so
+ * evaluation sets can be built from real usage.
+ *
+ * @example
+ * ```tsx
+ * const { feedbackById, submitFeedback, exportFeedback } = useAnswerFeedback()
+ *
+ * submitFeedback({ ...answerContext, rating: 'down', reasons: ['incomplete'], comment: '' })
+ * exportFeedback() // downloads answer-feedback-2026-10-19.jsonl
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { loadFeedback, saveFeedback } from '@/lib/conversation-store'
+import type { AnswerFeedback, FeedbackReason } from '@/types'
+
+/**
+ * What the user enters; the rest of an entry describes the answer
+ */
+export type AnswerFeedbackInput = Pick<AnswerFeedback, 'rating' | 'reasons' | 'comment'>
+
+export const FEEDBACK_REASONS: Array<{ value: FeedbackReason; label: string }> = [
+  { value: 'wrong_citation', label: 'Wrong citation' },
+  { value: 'hallucination', label: 'Hallucination' },
+  { value: 'incomplete', label: 'Incomplete' },
+  { value: 'outdated', label: 'Outdated' },
+]
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * ID of the feedback on one version of an assistant message
+ */
+export function getFeedbackId(messageId: string, versionIndex = 0): string {
+  return `${messageId}:${versionIndex}`
+}
+
+/**
+ * Feedback entries as JSON Lines, oldest first
+ */
+export function formatFeedbackJsonl(entries: AnswerFeedback[]): string {
+  return entries.map((entry) => JSON.stringify(entry) + '\n').join('')
+}
+
+function downloadText(text: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking right away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// =============================================================================
+// useAnswerFeedback Hook
+// =============================================================================
+
+export const useAnswerFeedback = () => {
+  const [entries, setEntries] = useState<AnswerFeedback[]>([])
+  const [restored, setRestored] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadFeedback().then((stored) => {
+      if (cancelled) return
+      // Keep anything rated while the log was loading
+      setEntries((prev) => [...stored.filter((entry) => !prev.some((p) => p.id === entry.id)), ...prev])
+      setRestored(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Persist the log whenever it changes - not before the stored one is restored
+  useEffect(() => {
+    if (restored) saveFeedback(entries)
+  }, [restored, entries])
+
+  const submitFeedback = useCallback((entry: Omit<AnswerFeedback, 'id' | 'timestamp'>) => {
+    const id = getFeedbackId(entry.message_id, entry.version_index)
+    setEntries((prev) => [...prev.filter((e) => e.id !== id), { ...entry, id, timestamp: new Date() }])
+  }, [])
+
+  const removeFeedback = useCallback((id: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.id !== id))
+  }, [])
+
+  const exportFeedback = useCallback(() => {
+    const date = new Date().toISOString().slice(0, 10)
+    downloadText(formatFeedbackJsonl(entries), `answer-feedback-${date}.jsonl`, 'application/x-ndjson')
+  }, [entries])
+
+  const feedbackById = useMemo(() => new Map(entries.map((entry) => [entry.id, entry])), [entries])
+
+  return {
+    entries,
+    feedbackById,
+    submitFeedback,
+    removeFeedback,
+    exportFeedback,
+  }
+}
+
+export default useAnswerFeedback
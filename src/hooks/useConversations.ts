@@ -0,0 +1,182 @@
+/**
+ * useConversations Hook
+ *
+ * Manages the list of knowledge search conversations: restoring them from
+ * IndexedDB on load, switching between threads, and persisting every change.
+ *
+ * @example
+ * ```tsx
+ * const { activeConversation, updateMessages, createNew } = useConversations()
+ *
+ * updateMessages(activeConversation.id, (prev) => [...prev, message])
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  createConversation,
+  deleteConversation,
+  deriveTitle,
+  getLastConversationId,
+  listConversations,
+  saveConversation,
+  setLastConversationId,
+  type StoredConversation,
+} from '@/lib/conversation-store'
+import type { AgentBinding } from '@/lib/workspace-config'
+import type { Message } from '@/types'
+
+// =============================================================================
+// useConversations Hook
+// =============================================================================
+
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<StoredConversation[]>(() => [
+    createConversation(),
+  ])
+  const [activeId, setActiveId] = useState<string>(() => conversations[0].id)
+  const [isRestoring, setIsRestoring] = useState(true)
+
+  // IDs changed since the last persist pass
+  const dirtyIds = useRef<Set<string>>(new Set())
+
+  // Restore saved conversations on load
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([listConversations(), getLastConversationId()]).then(([stored, lastId]) => {
+      if (cancelled) return
+      if (stored.length > 0) {
+        const active = stored.find((c) => c.id === lastId) ?? stored[0]
+        setConversations(stored)
+        setActiveId(active.id)
+      }
+      setIsRestoring(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Persist changed conversations (empty threads are never written)
+  useEffect(() => {
+    if (isRestoring || dirtyIds.current.size === 0) return
+
+    for (const id of dirtyIds.current) {
+      const conversation = conversations.find((c) => c.id === id)
+      if (conversation && conversation.messages.length > 0) {
+        saveConversation(conversation)
+      }
+    }
+    dirtyIds.current.clear()
+  }, [isRestoring, conversations])
+
+  useEffect(() => {
+    if (!isRestoring) setLastConversationId(activeId)
+  }, [isRestoring, activeId])
+
+  const activeConversation = conversations.find((c) => c.id === activeId) ?? conversations[0]
+
+  const updateConversation = useCallback(
+    (id: string, update: (conversation: StoredConversation) => StoredConversation) => {
+      dirtyIds.current.add(id)
+      setConversations((prev) => prev.map((c) => (c.id === id ? update(c) : c)))
+    },
+    []
+  )
+
+  /**
+   * Update the messages of a specific conversation. Takes the ID explicitly so
+   * responses that arrive after the user switched threads land in the right one.
+   */
+  const updateMessages = useCallback(
+    (id: string, update: (messages: Message[]) => Message[]) => {
+      updateConversation(id, (conversation) => {
+        const messages = update(conversation.messages)
+        const firstQuery = messages.find((m) => m.role === 'user')
+        return {
+          ...conversation,
+          messages,
+          title: conversation.title || (firstQuery ? deriveTitle(firstQuery.content) : ''),
+          updatedAt: new Date(),
+        }
+      })
+    },
+    [updateConversation]
+  )
+
+  /**
+   * Bind a conversation to an agent/RAG pair
+   */
+  const bind = useCallback(
+    (id: string, binding: AgentBinding) => {
+      updateConversation(id, (conversation) => ({ ...conversation, binding }))
+    },
+    [updateConversation]
+  )
+
+  const createNew = useCallback(
+    (binding?: AgentBinding) => {
+      // Reuse the active thread if nothing has been asked in it yet
+      if (activeConversation.messages.length === 0) {
+        if (binding) bind(activeConversation.id, binding)
+        return
+      }
+
+      const conversation = createConversation(binding)
+      setConversations((prev) => [conversation, ...prev.filter((c) => c.messages.length > 0)])
+      setActiveId(conversation.id)
+    },
+    [activeConversation, bind]
+  )
+
+  const switchTo = useCallback((id: string) => {
+    // Drop the unsaved empty thread we are leaving
+    setConversations((prev) => prev.filter((c) => c.id === id || c.messages.length > 0))
+    setActiveId(id)
+  }, [])
+
+  const rename = useCallback(
+    (id: string, title: string) => {
+      const trimmed = title.trim()
+      if (!trimmed) return
+      updateConversation(id, (conversation) => ({ ...conversation, title: trimmed }))
+    },
+    [updateConversation]
+  )
+
+  const remove = useCallback(
+    (id: string) => {
+      deleteConversation(id)
+
+      const remaining = conversations.filter((c) => c.id !== id)
+      if (remaining.length === 0) {
+        const conversation = createConversation()
+        setConversations([conversation])
+        setActiveId(conversation.id)
+        return
+      }
+
+      setConversations(remaining)
+      if (id === activeId) {
+        setActiveId(remaining[0].id)
+      }
+    },
+    [conversations, activeId]
+  )
+
+  return {
+    conversations,
+    activeConversation,
+    isRestoring,
+    updateMessages,
+    bind,
+    createNew,
+    switchTo,
+    rename,
+    remove,
+  }
+}
+
+export default useConversations
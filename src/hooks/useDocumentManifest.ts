@@ -0,0 +1,205 @@
+/**
+ * useDocumentManifest Hook
+ *
+ * Local manifest of the documents ingested into a knowledge base: size,
+ * content hash, upload date, uploader, chunk count, plus user-defined tags
+ * and collections. The knowledge base only lists file names, so this is
+ * where everything else about a document lives. Persisted in IndexedDB.
+ *
+ * @example
+ * ```tsx
+ * const { manifest, recordUpload, updateEntry } = useDocumentManifest(RAG_ID)
+ *
+ * recordUpload({ fileName: file.name, size: file.size, hash, chunkCount: 42 })
+ * updateEntry(file.name, { tags: ['finance', 'q3'] })
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { loadDocumentManifest, saveDocumentManifest } from '@/lib/conversation-store'
+import { getRuntimeConfig } from '@/lib/runtime-config'
+import type { DocumentManifest, DocumentManifestEntry, UploadedDocument } from '@/types'
+
+type ManifestUpload = Pick<DocumentManifestEntry, 'fileName' | 'size'> &
+  Partial<Omit<DocumentManifestEntry, 'fileName' | 'size'>>
+
+// Writes to manifests not on screen, in order; loads wait for them
+let storedManifestWrites: Promise<unknown> = Promise.resolve()
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse comma-separated labels: trimmed, de-duplicated (case-insensitive), order kept
+ */
+export function parseLabels(input: string | string[]): string[] {
+  const raw = Array.isArray(input) ? input : input.split(',')
+  const seen = new Set<string>()
+  return raw
+    .map((label) => label.trim())
+    .filter((label) => {
+      const key = label.toLowerCase()
+      if (!label || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Manifest with a completed upload recorded. Tags and collections passed in
+ * (those of a replaced document) win; otherwise an existing entry's with the
+ * same file name are kept.
+ */
+export function applyUpload(manifest: DocumentManifest, upload: ManifestUpload): DocumentManifest {
+  const existing = manifest[upload.fileName]
+  return {
+    ...manifest,
+    [upload.fileName]: {
+      uploadDate: new Date(),
+      uploader: getRuntimeConfig().uploaderName,
+      ...upload,
+      tags: parseLabels(upload.tags ?? existing?.tags ?? []),
+      collections: parseLabels(upload.collections ?? existing?.collections ?? []),
+    },
+  }
+}
+
+/**
+ * Record a completed upload in the stored manifest of a knowledge base that
+ * is not on screen - an upload that finished after the user switched away
+ */
+export function recordStoredUpload(ragId: string, upload: ManifestUpload): Promise<boolean> {
+  const write = storedManifestWrites.then(async () => {
+    const stored = await loadDocumentManifest(ragId)
+    return saveDocumentManifest(ragId, applyUpload(stored, upload))
+  })
+  storedManifestWrites = write
+  return write
+}
+
+/**
+ * Every tag or collection used in the manifest, sorted alphabetically
+ */
+export function collectLabels(
+  manifest: DocumentManifest,
+  field: 'tags' | 'collections'
+): string[] {
+  const labels = new Set<string>()
+  Object.values(manifest).forEach((entry) => entry[field].forEach((label) => labels.add(label)))
+  return Array.from(labels).sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Keep documents whose manifest entry has the given tag and collection.
+ * A null filter matches everything; documents without an entry only match
+ * when no filter is set.
+ */
+export function filterDocumentsByManifest(
+  documents: UploadedDocument[],
+  manifest: DocumentManifest,
+  filter: { tag: string | null; collection: string | null }
+): UploadedDocument[] {
+  if (!filter.tag && !filter.collection) return documents
+
+  return documents.filter((doc) => {
+    const entry = manifest[doc.name]
+    if (!entry) return false
+    return (
+      (!filter.tag || entry.tags.includes(filter.tag)) &&
+      (!filter.collection || entry.collections.includes(filter.collection))
+    )
+  })
+}
+
+// =============================================================================
+// useDocumentManifest Hook
+// =============================================================================
+
+export const useDocumentManifest = (ragId: string) => {
+  const [manifest, setManifest] = useState<DocumentManifest>({})
+  // Knowledge base the manifest in state belongs to, once restored
+  const [restoredRagId, setRestoredRagId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setRestoredRagId(null)
+    setManifest({})
+
+    storedManifestWrites
+      .then(() => loadDocumentManifest(ragId))
+      .then((stored) => {
+        if (cancelled) return
+        setManifest(stored)
+        setRestoredRagId(ragId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [ragId])
+
+  // Persist the manifest whenever it changes - never under another
+  // knowledge base's key while switching
+  useEffect(() => {
+    if (restoredRagId === ragId) saveDocumentManifest(ragId, manifest)
+  }, [restoredRagId, ragId, manifest])
+
+  /**
+   * Record a completed upload (see applyUpload)
+   */
+  const recordUpload = useCallback((upload: ManifestUpload) => {
+    setManifest((prev) => applyUpload(prev, upload))
+  }, [])
+
+  /**
+   * Update tags, collections or other metadata of a document. Documents the
+   * knowledge base lists but this browser never uploaded get a new entry.
+   */
+  const updateEntry = useCallback(
+    (fileName: string, changes: Partial<Omit<DocumentManifestEntry, 'fileName'>>) => {
+      setManifest((prev) => {
+        const base: DocumentManifestEntry = prev[fileName] ?? {
+          fileName,
+          size: 0,
+          uploadDate: new Date(),
+          uploader: 'Unknown',
+          tags: [],
+          collections: [],
+        }
+        return {
+          ...prev,
+          [fileName]: {
+            ...base,
+            ...changes,
+            tags: parseLabels(changes.tags ?? base.tags),
+            collections: parseLabels(changes.collections ?? base.collections),
+          },
+        }
+      })
+    },
+    []
+  )
+
+  const removeEntries = useCallback((fileNames: string[]) => {
+    setManifest((prev) => {
+      const next = { ...prev }
+      fileNames.forEach((name) => delete next[name])
+      return next
+    })
+  }, [])
+
+  const tags = useMemo(() => collectLabels(manifest, 'tags'), [manifest])
+  const collections = useMemo(() => collectLabels(manifest, 'collections'), [manifest])
+
+  return {
+    manifest,
+    tags,
+    collections,
+    recordUpload,
+    updateEntry,
+    removeEntries,
+  }
+}
+
+export default useDocumentManifest
@@ -0,0 +1,169 @@
+/**
+ * useDocuments Hook
+ *
+ * Keeps the document sidebar in sync with a RAG knowledge base. The locally
+ * cached list (IndexedDB) is shown immediately, then reconciled with
+ * getDocuments(ragId) so the sidebar reflects what is actually trained.
+ * Deletes are optimistic and roll back if deleteDocuments fails.
+ *
+ * @example
+ * ```tsx
+ * const { documents, setDocuments, removeDocuments } = useDocuments(RAG_ID)
+ *
+ * const result = await removeDocuments([doc.id])
+ * if (!result.success) console.error(result.error)
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { loadDocuments, saveDocuments } from '@/lib/conversation-store'
+import { getDocuments, deleteDocuments, type RAGDocument } from '@/utils/ragKnowledgeBase'
+import type { UploadedDocument } from '@/types'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Merge the knowledge base listing with local entries.
+ * - Trained documents come from the server, keeping local metadata (size, date, asset_id)
+ * - In-progress and failed uploads are local-only and always kept
+ * - Local "success" entries the server no longer lists are dropped
+ */
+export function reconcileDocuments(
+  local: UploadedDocument[],
+  remote: RAGDocument[]
+): UploadedDocument[] {
+  const remoteNames = new Set(remote.map((doc) => doc.fileName))
+
+  const trained: UploadedDocument[] = remote.map((doc) => {
+    const known = local.find((l) => l.name === doc.fileName && l.status === 'success')
+    return (
+      known ?? {
+        id: `rag-${doc.fileName}`,
+        name: doc.fileName,
+        size: doc.fileSize ?? 0,
+        uploadDate: doc.uploadedAt ? new Date(doc.uploadedAt) : new Date(),
+        status: 'success',
+      }
+    )
+  })
+
+  const pending = local.filter(
+    (doc) => doc.status !== 'success' && !(doc.status === 'error' && remoteNames.has(doc.name))
+  )
+
+  return [...trained, ...pending]
+}
+
+// =============================================================================
+// useDocuments Hook
+// =============================================================================
+
+export const useDocuments = (ragId: string) => {
+  const [documents, setDocuments] = useState<UploadedDocument[]>([])
+  // Knowledge base the list in state belongs to, once restored
+  const [restoredRagId, setRestoredRagId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Latest list, for rollbacks computed outside a state updater
+  const documentsRef = useRef(documents)
+  documentsRef.current = documents
+  // Knowledge base currently shown, so a listing that arrives after a switch is dropped
+  const ragIdRef = useRef(ragId)
+  ragIdRef.current = ragId
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    const result = await getDocuments(ragId)
+    if (ragIdRef.current !== ragId) return result
+
+    if (result.success) {
+      setDocuments((prev) => reconcileDocuments(prev, result.documents || []))
+      setError(null)
+    } else {
+      setError(result.error || 'Failed to load documents')
+    }
+
+    setLoading(false)
+    return result
+  }, [ragId])
+
+  // Show the cached list first, then reconcile with the knowledge base
+  useEffect(() => {
+    let cancelled = false
+    setRestoredRagId(null)
+    setDocuments([])
+
+    loadDocuments(ragId).then((stored) => {
+      if (cancelled) return
+      // Uploads cannot resume after a reload
+      setDocuments(
+        stored.map((doc) =>
+          doc.status === 'uploading'
+            ? { ...doc, status: 'error', error: 'Upload interrupted by page reload' }
+            : doc
+        )
+      )
+      setRestoredRagId(ragId)
+      refresh()
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [ragId, refresh])
+
+  // Persist the document list whenever it changes - never under another
+  // knowledge base's key while switching
+  useEffect(() => {
+    if (restoredRagId === ragId) saveDocuments(ragId, documents)
+  }, [restoredRagId, ragId, documents])
+
+  /**
+   * Remove documents by ID. Trained documents are deleted from the knowledge
+   * base; the sidebar updates immediately and rolls back if the delete fails.
+   * The result lists the sidebar entries that were removed.
+   */
+  const removeDocuments = useCallback(
+    async (ids: string[]) => {
+      const removed = documentsRef.current.filter((doc) => ids.includes(doc.id))
+      const trainedNames = removed.filter((doc) => doc.status === 'success').map((doc) => doc.name)
+
+      setDocuments((prev) => prev.filter((doc) => !ids.includes(doc.id)))
+      setError(null)
+
+      if (trainedNames.length === 0) {
+        return { success: true, removed }
+      }
+
+      const result = await deleteDocuments(ragId, trainedNames)
+
+      if (!result.success) {
+        setDocuments((prev) => [
+          ...removed.filter((doc) => !prev.some((p) => p.id === doc.id)),
+          ...prev,
+        ])
+        setError(result.error || 'Failed to delete documents')
+      }
+
+      return { ...result, removed }
+    },
+    [ragId]
+  )
+
+  const clearError = useCallback(() => setError(null), [])
+
+  return {
+    documents,
+    setDocuments,
+    loading,
+    error,
+    clearError,
+    refresh,
+    removeDocuments,
+  }
+}
+
+export default useDocuments
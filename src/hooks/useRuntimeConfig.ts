@@ -0,0 +1,45 @@
+/**
+ * useRuntimeConfig Hook
+ *
+ * The effective runtime configuration (API key, base URLs, default agent),
+ * re-rendering whenever the settings dialog saves a change.
+ *
+ * @example
+ * ```tsx
+ * const { config, saveSettings } = useRuntimeConfig()
+ *
+ * if (config.apiKeySource === 'none') showSettings()
+ * saveSettings({ ragBaseUrl: 'http://localhost:8787/v3' })
+ * ```
+ */
+
+import { useState, useEffect } from 'react'
+import {
+  getRuntimeConfig,
+  getRuntimeSettings,
+  saveRuntimeSettings,
+  subscribeRuntimeConfig,
+  type RuntimeConfig,
+} from '@/lib/runtime-config'
+
+// =============================================================================
+// useRuntimeConfig Hook
+// =============================================================================
+
+export const useRuntimeConfig = () => {
+  const [config, setConfig] = useState<RuntimeConfig>(() => getRuntimeConfig())
+
+  useEffect(() => {
+    // Catch changes saved between the first render and subscribing
+    setConfig(getRuntimeConfig())
+    return subscribeRuntimeConfig(setConfig)
+  }, [])
+
+  return {
+    config,
+    settings: getRuntimeSettings(),
+    saveSettings: saveRuntimeSettings,
+  }
+}
+
+export default useRuntimeConfig
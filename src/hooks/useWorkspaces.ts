@@ -0,0 +1,74 @@
+/**
+ * useWorkspaces Hook
+ *
+ * The agent/RAG pairs the user can switch between, from workflow_state.json
+ * plus the runtime settings store, and the default pair new conversations
+ * start with: the one chosen in the settings dialog, else the one last
+ * switched to (both kept in the runtime configuration).
+ *
+ * @example
+ * ```tsx
+ * const { options, resolveBinding, rememberBinding } = useWorkspaces()
+ *
+ * const workspace = resolveBinding(activeConversation.binding)
+ * rememberBinding(options[1])
+ * ```
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useRuntimeConfig } from '@/hooks/useRuntimeConfig'
+import {
+  findWorkspaceOption,
+  getWorkspaceConfig,
+  listWorkspaceOptions,
+  type AgentBinding,
+  type WorkspaceConfig,
+  type WorkspaceOption,
+} from '@/lib/workspace-config'
+
+// =============================================================================
+// useWorkspaces Hook
+// =============================================================================
+
+export const useWorkspaces = () => {
+  const config = useMemo<WorkspaceConfig>(() => getWorkspaceConfig(), [])
+  const { config: runtimeConfig, saveSettings } = useRuntimeConfig()
+
+  const options = useMemo(() => listWorkspaceOptions(config), [config])
+  // Pair chosen in the settings dialog, if any
+  const configuredOption = findWorkspaceOption(options, runtimeConfig.defaultBinding)
+  const defaultOption =
+    configuredOption ?? findWorkspaceOption(options, runtimeConfig.lastBinding) ?? options[0]
+
+  /**
+   * The pair a conversation is bound to; unbound conversations and pairs
+   * that are no longer configured fall back to the default
+   */
+  const resolveBinding = useCallback(
+    (binding?: AgentBinding | null): WorkspaceOption =>
+      findWorkspaceOption(options, binding) ?? defaultOption,
+    [options, defaultOption]
+  )
+
+  /**
+   * Remember the pair last switched to - new conversations start with it
+   * unless a default is chosen in the settings dialog
+   */
+  const rememberBinding = useCallback(
+    (binding: AgentBinding) => {
+      saveSettings({ lastBinding: { agent_id: binding.agent_id, rag_id: binding.rag_id } })
+    },
+    [saveSettings]
+  )
+
+  return {
+    config,
+    options,
+    configuredOption,
+    defaultOption,
+    resolveBinding,
+    rememberBinding,
+  }
+}
+
+export default useWorkspaces
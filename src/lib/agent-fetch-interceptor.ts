@@ -5,10 +5,11 @@
  * Works even when AI-generated code uses raw fetch() instead of useAgent hook
  */
 
-// Lyzr Agent API endpoint to intercept
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
 import { isInIframe } from '@/components/ErrorBoundary'
+import { getAgentApiUrl, getRuntimeConfig } from '@/lib/runtime-config'
+
+// Lyzr Agent API endpoint reported with detected issues
+const CHAT_PATH = '/inference/chat'
 
 interface ErrorDetails {
   type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
@@ -103,7 +104,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'api_error',
         message: data.error,
         raw_response: data.details || data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getAgentApiUrl(CHAT_PATH),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -119,7 +120,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'parse_error',
         message: 'JSON parsing failed but valid data exists in raw_response',
         raw_response: data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: getAgentApiUrl(CHAT_PATH),
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -139,7 +140,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
             type: 'parse_error',
             message: data.response.error,
             raw_response: data.raw_response,
-            endpoint: LYZR_API_URL,
+            endpoint: getAgentApiUrl(CHAT_PATH),
             timestamp: new Date().toISOString(),
             userAgent: navigator.userAgent,
             url: window.location.href,
@@ -189,8 +190,8 @@ async function interceptedFetch(
 
   const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
 
-  // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
+  // Only intercept Lyzr Agent API calls (the configured base URL may point at a mock)
+  if (!url.startsWith(getRuntimeConfig().agentBaseUrl)) {
     return originalFetch(input, init)
   }
 
@@ -199,26 +200,30 @@ async function interceptedFetch(
   try {
     const response = await originalFetch(input, init)
 
-    // Clone response so we can read it without consuming
-    const clonedResponse = response.clone()
-
-    // Try to detect issues in the response
-    try {
-      const data = await clonedResponse.json()
-
-      const { hasIssue, error } = detectResponseIssue(data)
+    // Streamed answers are read token by token by the caller - reading a
+    // copy would hold the tokens back until the stream ends
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream') || url.includes('/inference/stream/')) {
+      return response
+    }
 
-      if (hasIssue && error) {
-        console.warn('[AgentInterceptor] Detected response issue:', error.type)
+    // Check a copy in the background; the caller gets the response right away
+    response
+      .clone()
+      .json()
+      .then((data) => {
+        const { hasIssue, error } = detectResponseIssue(data)
 
-        // Store error and notify modal (don't auto-send to parent)
-        setPendingError(error, data)
+        if (hasIssue && error) {
+          console.warn('[AgentInterceptor] Detected response issue:', error.type)
 
-        // Still return the original response so UI can try to use it
-      }
-    } catch (jsonError) {
-      // Response isn't JSON - that's fine, just continue
-    }
+          // Store error and notify modal (don't auto-send to parent)
+          setPendingError(error, data)
+        }
+      })
+      .catch(() => {
+        // Response isn't JSON - that's fine
+      })
 
     return response
 
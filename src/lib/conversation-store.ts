@@ -0,0 +1,373 @@
+/**
+ * Conversation Store
+ *
+ * IndexedDB-backed persistence for knowledge search conversations.
+ * Each conversation keeps its own session_id, title and messages (with
+ * KnowledgeSearchResult payloads) and the agent/RAG pair it talks to, so a
+ * reload restores exactly what the agent's server-side memory has seen.
+ * Uploaded documents belong to a knowledge base, not a conversation: the
+ * document list and the manifest of document metadata are stored per
+ * knowledge base. Answer feedback is one log across all conversations.
+ *
+ * @example
+ * ```typescript
+ * import { listConversations, saveConversation } from '@/lib/conversation-store'
+ *
+ * const conversations = await listConversations()
+ * await saveConversation({ ...conversations[0], title: 'Quarterly report' })
+ * ```
+ */
+
+import type { AnswerFeedback, DocumentManifest, Message, UploadedDocument } from '@/types'
+import type { AgentBinding } from '@/lib/workspace-config'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'knowledge-search'
+const DB_VERSION = 1
+const CONVERSATIONS_STORE = 'conversations'
+const META_STORE = 'meta'
+const LAST_CONVERSATION_KEY = 'lastConversationId'
+const DOCUMENTS_KEY_PREFIX = 'documents:'
+const MANIFEST_KEY_PREFIX = 'manifest:'
+const FEEDBACK_KEY = 'feedback'
+
+const MAX_TITLE_LENGTH = 60
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StoredConversation {
+  id: string
+  /** Session ID passed to callAIAgent for every message in this conversation */
+  session_id: string
+  /** Display title - empty until derived from the first query or renamed */
+  title: string
+  messages: Message[]
+  /** Agent/RAG pair; set at the latest when the first question is sent */
+  binding?: AgentBinding
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ConversationSearchMatch {
+  conversation: StoredConversation
+  /** Message text that matched the query, if the title did not */
+  snippet?: string
+}
+
+// =============================================================================
+// Database Helpers
+// =============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Check if IndexedDB is available (not in SSR, not blocked by the browser)
+ */
+export function isPersistenceAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch {
+    return false
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = run(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Create a new, unsaved conversation with a fresh session_id
+ */
+export function createConversation(binding?: AgentBinding): StoredConversation {
+  const now = new Date()
+  return {
+    id: `conversation-${now.getTime()}`,
+    session_id: `session-${now.getTime()}`,
+    title: '',
+    messages: [],
+    binding,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Derive a conversation title from the first query
+ */
+export function deriveTitle(query: string): string {
+  const singleLine = query.replace(/\s+/g, ' ').trim()
+  if (singleLine.length <= MAX_TITLE_LENGTH) return singleLine
+  return singleLine.substring(0, MAX_TITLE_LENGTH - 1).trimEnd() + '…'
+}
+
+/**
+ * Full-text search over conversation titles and message contents
+ */
+export function searchConversations(
+  conversations: StoredConversation[],
+  query: string
+): ConversationSearchMatch[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return conversations.map((conversation) => ({ conversation }))
+
+  const matches: ConversationSearchMatch[] = []
+  for (const conversation of conversations) {
+    if (conversation.title.toLowerCase().includes(needle)) {
+      matches.push({ conversation })
+      continue
+    }
+
+    const message = conversation.messages.find((m) =>
+      m.content.toLowerCase().includes(needle)
+    )
+    if (message) {
+      matches.push({ conversation, snippet: message.content })
+    }
+  }
+  return matches
+}
+
+// =============================================================================
+// API Functions
+// =============================================================================
+
+/**
+ * List all saved conversations, most recently updated first
+ */
+export async function listConversations(): Promise<StoredConversation[]> {
+  if (!isPersistenceAvailable()) return []
+
+  try {
+    const conversations = await withStore<StoredConversation[]>(
+      CONVERSATIONS_STORE,
+      'readonly',
+      (store) => store.getAll()
+    )
+    return conversations
+      .map((c) => ({ ...c, title: c.title ?? '' }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  } catch (error) {
+    console.error('List conversations failed:', error)
+    return []
+  }
+}
+
+/**
+ * Get the ID of the most recently active conversation, if any
+ */
+export async function getLastConversationId(): Promise<string | null> {
+  if (!isPersistenceAvailable()) return null
+
+  try {
+    const lastId = await withStore<string | undefined>(META_STORE, 'readonly', (store) =>
+      store.get(LAST_CONVERSATION_KEY)
+    )
+    return lastId ?? null
+  } catch (error) {
+    console.error('Load last conversation failed:', error)
+    return null
+  }
+}
+
+/**
+ * Remember which conversation was active last
+ */
+export async function setLastConversationId(id: string): Promise<void> {
+  if (!isPersistenceAvailable()) return
+
+  try {
+    await withStore(META_STORE, 'readwrite', (store) => store.put(id, LAST_CONVERSATION_KEY))
+  } catch (error) {
+    console.error('Save last conversation failed:', error)
+  }
+}
+
+/**
+ * Save (insert or replace) a conversation
+ */
+export async function saveConversation(conversation: StoredConversation): Promise<boolean> {
+  if (!isPersistenceAvailable()) return false
+
+  try {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', (store) => store.put(conversation))
+    return true
+  } catch (error) {
+    console.error('Save conversation failed:', error)
+    return false
+  }
+}
+
+/**
+ * Delete a conversation by ID
+ */
+export async function deleteConversation(id: string): Promise<boolean> {
+  if (!isPersistenceAvailable()) return false
+
+  try {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', (store) => store.delete(id))
+    return true
+  } catch (error) {
+    console.error('Delete conversation failed:', error)
+    return false
+  }
+}
+
+/**
+ * Load the document list of a knowledge base shown in the sidebar
+ */
+export async function loadDocuments(ragId: string): Promise<UploadedDocument[]> {
+  if (!isPersistenceAvailable()) return []
+
+  try {
+    const documents = await withStore<UploadedDocument[] | undefined>(
+      META_STORE,
+      'readonly',
+      (store) => store.get(DOCUMENTS_KEY_PREFIX + ragId)
+    )
+    return documents ?? []
+  } catch (error) {
+    console.error('Load documents failed:', error)
+    return []
+  }
+}
+
+/**
+ * Save the document list of a knowledge base shown in the sidebar
+ */
+export async function saveDocuments(
+  ragId: string,
+  documents: UploadedDocument[]
+): Promise<boolean> {
+  if (!isPersistenceAvailable()) return false
+
+  try {
+    await withStore(META_STORE, 'readwrite', (store) =>
+      store.put(documents, DOCUMENTS_KEY_PREFIX + ragId)
+    )
+    return true
+  } catch (error) {
+    console.error('Save documents failed:', error)
+    return false
+  }
+}
+
+/**
+ * Load the document manifest (metadata, tags, collections) of a knowledge base
+ */
+export async function loadDocumentManifest(ragId: string): Promise<DocumentManifest> {
+  if (!isPersistenceAvailable()) return {}
+
+  try {
+    const manifest = await withStore<DocumentManifest | undefined>(
+      META_STORE,
+      'readonly',
+      (store) => store.get(MANIFEST_KEY_PREFIX + ragId)
+    )
+    return manifest ?? {}
+  } catch (error) {
+    console.error('Load document manifest failed:', error)
+    return {}
+  }
+}
+
+/**
+ * Save the document manifest of a knowledge base
+ */
+export async function saveDocumentManifest(
+  ragId: string,
+  manifest: DocumentManifest
+): Promise<boolean> {
+  if (!isPersistenceAvailable()) return false
+
+  try {
+    await withStore(META_STORE, 'readwrite', (store) =>
+      store.put(manifest, MANIFEST_KEY_PREFIX + ragId)
+    )
+    return true
+  } catch (error) {
+    console.error('Save document manifest failed:', error)
+    return false
+  }
+}
+
+/**
+ * Load the answer feedback log, oldest first
+ */
+export async function loadFeedback(): Promise<AnswerFeedback[]> {
+  if (!isPersistenceAvailable()) return []
+
+  try {
+    const feedback = await withStore<AnswerFeedback[] | undefined>(META_STORE, 'readonly', (store) =>
+      store.get(FEEDBACK_KEY)
+    )
+    return feedback ?? []
+  } catch (error) {
+    console.error('Load feedback failed:', error)
+    return []
+  }
+}
+
+/**
+ * Save the answer feedback log
+ */
+export async function saveFeedback(feedback: AnswerFeedback[]): Promise<boolean> {
+  if (!isPersistenceAvailable()) return false
+
+  try {
+    await withStore(META_STORE, 'readwrite', (store) => store.put(feedback, FEEDBACK_KEY))
+    return true
+  } catch (error) {
+    console.error('Save feedback failed:', error)
+    return false
+  }
+}
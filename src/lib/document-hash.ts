@@ -0,0 +1,92 @@
+/**
+ * Document Hashing and Duplicate Detection
+ *
+ * SHA-256 content hashes for uploaded files, and lookup of an incoming file
+ * against documents already in the knowledge base: by hash against the local
+ * document list (the files this browser uploaded), and by file name against
+ * everything the knowledge base lists.
+ *
+ * @example
+ * ```typescript
+ * const hash = await hashFile(file)
+ * const duplicate = findDuplicateDocument({ name: file.name, hash }, documents)
+ * if (duplicate?.reason === 'content') {
+ *   console.log(`Same content as ${duplicate.document.name}`)
+ * }
+ * ```
+ */
+
+import type { UploadedDocument } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DuplicateMatch {
+  /** 'content': identical bytes; 'name': same file name, content unknown or different */
+  reason: 'content' | 'name'
+  document: UploadedDocument
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * Hex-encoded SHA-256 of the file's bytes
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// =============================================================================
+// Duplicate Detection
+// =============================================================================
+
+/**
+ * Find a document the incoming file duplicates. A content match wins over
+ * a name match. Failed uploads are ignored - they are not in the knowledge base.
+ */
+export function findDuplicateDocument(
+  incoming: { name: string; hash?: string },
+  documents: UploadedDocument[]
+): DuplicateMatch | null {
+  const candidates = documents.filter((doc) => doc.status !== 'error')
+
+  const sameContent = incoming.hash && candidates.find((doc) => doc.hash === incoming.hash)
+  if (sameContent) return { reason: 'content', document: sameContent }
+
+  const name = incoming.name.toLowerCase()
+  const sameName = candidates.find((doc) => doc.name.toLowerCase() === name)
+  if (sameName) return { reason: 'name', document: sameName }
+
+  return null
+}
+
+/**
+ * Next free name in the "report (2).pdf" style, for keeping both copies.
+ * Documents are stored and deleted by file name, so two copies cannot share one.
+ */
+export function getAvailableFileName(fileName: string, takenNames: string[]): string {
+  const taken = new Set(takenNames.map((name) => name.toLowerCase()))
+  if (!taken.has(fileName.toLowerCase())) return fileName
+
+  const dot = fileName.lastIndexOf('.')
+  const base = dot > 0 ? fileName.substring(0, dot) : fileName
+  const ext = dot > 0 ? fileName.substring(dot) : ''
+
+  for (let n = 2; ; n++) {
+    const candidate = `${base} (${n})${ext}`
+    if (!taken.has(candidate.toLowerCase())) return candidate
+  }
+}
+
+/**
+ * Copy of a file under a different name (File names are read-only)
+ */
+export function renameFile(file: File, name: string): File {
+  return new File([file], name, { type: file.type, lastModified: file.lastModified })
+}
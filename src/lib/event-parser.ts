@@ -3,27 +3,33 @@
  * Handles malformed SSE events from Lyra backend
  */
 
-import { robustJSONParse, type ParseResult } from './json-parser'
+import { parseJson, type ParseStrategy } from './json-parser'
 import type { SSEEvent, SSEEventType, SSEEventBase } from '@/types'
 
 export interface ParsedSSEEvent {
   success: boolean
   event?: SSEEvent
   eventType?: SSEEventType
+  /** The event's data lines, joined - as sent, whitespace included */
+  data?: string
   raw?: string
   error?: string
-  parseStrategy?: string
+  parseStrategy?: ParseStrategy | null
+  /** Every parser step behind the event, e.g. ['extract', 'clean'] */
+  parseTrace?: ParseStrategy[]
 }
 
 /**
- * Parse a single SSE line into event type and data
+ * Parse a single SSE line into event type and data. The space after the
+ * colon is optional; only that one space is dropped from data.
  */
 function parseSSELine(line: string): { type: 'event' | 'data' | 'other'; value: string } {
-  if (line.startsWith('event: ')) {
-    return { type: 'event', value: line.substring(7).trim() }
+  if (line.startsWith('event:')) {
+    return { type: 'event', value: line.substring(6).trim() }
   }
-  if (line.startsWith('data: ')) {
-    return { type: 'data', value: line.substring(6) }
+  if (line.startsWith('data:')) {
+    const value = line.substring(5)
+    return { type: 'data', value: value.startsWith(' ') ? value.substring(1) : value }
   }
   return { type: 'other', value: line }
 }
@@ -41,6 +47,7 @@ export function parseSSEEvent(
     return {
       success: true,
       eventType: 'chat_completed' as SSEEventType,
+      data,
       event: {
         type: 'chat_completed',
         request_id: requestId || '',
@@ -50,9 +57,10 @@ export function parseSSEEvent(
   }
 
   // Use robust JSON parser
-  const parseResult = robustJSONParse<Record<string, unknown>>(data)
+  const parseResult = parseJson<Record<string, unknown>>(data)
+  const isObject = Object.prototype.toString.call(parseResult.data) === '[object Object]'
 
-  if (parseResult.success && parseResult.data) {
+  if (parseResult.success && isObject) {
     const eventData = parseResult.data
 
     // Ensure type field is set
@@ -72,7 +80,9 @@ export function parseSSEEvent(
       success: true,
       event: eventData as unknown as SSEEvent,
       eventType: (eventData.type || eventType) as SSEEventType,
+      data,
       parseStrategy: parseResult.strategy,
+      parseTrace: parseResult.trace,
     }
   }
 
@@ -80,9 +90,11 @@ export function parseSSEEvent(
   return {
     success: false,
     eventType: 'parse_error' as SSEEventType,
+    data,
     raw: parseResult.raw || data,
-    error: parseResult.error || 'Failed to parse SSE data',
+    error: parseResult.success ? 'SSE data is not a JSON object' : parseResult.error || 'Failed to parse SSE data',
     parseStrategy: parseResult.strategy,
+    parseTrace: parseResult.trace,
   }
 }
 
@@ -94,7 +106,7 @@ export function parseSSEEvent(
  */
 export function parseSSEStream(rawSSE: string, requestId?: string): ParsedSSEEvent[] {
   const events: ParsedSSEEvent[] = []
-  const lines = rawSSE.split('\n')
+  const lines = rawSSE.split(/\r?\n/)
 
   let currentEventType: string | null = null
   let currentData: string[] = []
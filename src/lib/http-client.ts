@@ -0,0 +1,607 @@
+/**
+ * HTTP Client
+ *
+ * Small typed HTTP client: endpoints are declared once (method, URL, body,
+ * how the response is read), requests run through a middleware chain
+ * (auth, logging, retries, timeouts) and every call resolves to a
+ * `Result<T, ApiError>` instead of throwing. Network failures, timeouts,
+ * cancellation, HTTP error statuses and unreadable bodies all become an
+ * ApiError with a `kind`, so callers handle every failure the same way.
+ *
+ * @example
+ * ```typescript
+ * const listDocuments = defineEndpoint<{ ragId: string }, string[]>({
+ *   name: 'List documents',
+ *   method: 'GET',
+ *   url: ({ ragId }) => `https://rag.example.com/rag/documents/${ragId}/`,
+ * })
+ *
+ * const client = createHttpClient({
+ *   middleware: [createRetryMiddleware(), createTimeoutMiddleware(30000)],
+ * })
+ *
+ * const result = await client.request(listDocuments, { ragId })
+ * if (result.ok) {
+ *   console.log(result.value)
+ * } else if (result.error.kind === 'http' && result.error.status === 404) {
+ *   console.log('No documents yet')
+ * }
+ * ```
+ */
+
+import { postWithProgress } from '@/lib/upload-progress'
+
+// =============================================================================
+// Result
+// =============================================================================
+
+/**
+ * Both members declare both fields so `result.error` / `result.value` read
+ * cleanly after an `ok` check without strictNullChecks
+ */
+export type Result<T, E = ApiError> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; error: E; value?: undefined }
+
+export function ok<T>(value: T): Result<T, never> {
+  return { ok: true, value }
+}
+
+export function err<E>(error: E): Result<never, E> {
+  return { ok: false, error }
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * - config: the request could not be made (e.g. no API key)
+ * - network: no response (offline, DNS, CORS, connection reset)
+ * - timeout: no response within the timeout
+ * - aborted: cancelled through the caller's AbortSignal
+ * - http: the server answered with an error status
+ * - parse: the response body could not be read as expected
+ */
+export type ApiErrorKind = 'config' | 'network' | 'timeout' | 'aborted' | 'http' | 'parse'
+
+export interface ApiErrorDetails {
+  /** Endpoint name */
+  endpoint: string
+  status?: number
+  statusText?: string
+  /** Response body of an HTTP error */
+  body?: string
+  cause?: unknown
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly endpoint: string
+  readonly status?: number
+  readonly statusText?: string
+  readonly body?: string
+  readonly cause?: unknown
+
+  constructor(kind: ApiErrorKind, message: string, details: ApiErrorDetails) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.endpoint = details.endpoint
+    this.status = details.status
+    this.statusText = details.statusText
+    this.body = details.body
+    this.cause = details.cause
+  }
+
+  /** Whether the same request may succeed if sent again */
+  get retryable(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true
+    return this.kind === 'http' && this.status !== undefined && isRetryableStatus(this.status)
+  }
+}
+
+/**
+ * 408, 429 and 5xx - the server may accept the same request later
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Exponential backoff with +/-20% jitter so parallel retries spread out
+ */
+export function getRetryDelay(attempt: number, baseDelayMs = 1000, maxDelayMs = 15000): number {
+  const delay = Math.min(baseDelayMs * 2 ** Math.max(attempt - 1, 0), maxDelayMs)
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+/**
+ * Error message from an error response body ({"error": ...}, {"message": ...}
+ * or {"detail": ...}); null if the body has none
+ */
+export function extractErrorMessage(body: string): string | null {
+  try {
+    const data = JSON.parse(body)
+    const message = data?.error ?? data?.message ?? data?.detail
+    if (typeof message === 'string' && message) return message
+    if (message && typeof message === 'object') return JSON.stringify(message)
+  } catch {
+    // Not JSON - a short plain-text body is the message itself
+    const text = body.trim()
+    if (text && text.length <= 200 && !text.startsWith('<')) return text
+  }
+  return null
+}
+
+/**
+ * Convert anything a transport or middleware threw into an ApiError
+ */
+export function toApiError(error: unknown, endpoint: string): ApiError {
+  if (error instanceof ApiError) return error
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new ApiError('aborted', 'Request cancelled', { endpoint, cause: error })
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new ApiError('network', `Network error: ${message}`, { endpoint, cause: error })
+}
+
+// =============================================================================
+// Requests and Middleware
+// =============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface HttpRequest {
+  /** Endpoint name, for logs and errors */
+  endpoint: string
+  method: HttpMethod
+  url: string
+  headers: Record<string, string>
+  body?: BodyInit
+  signal?: AbortSignal
+  /** Time allowed per attempt until the response headers arrive; 0 disables */
+  timeoutMs: number
+  /** Attempts including the first */
+  maxAttempts: number
+  /** Narrows which retryable failures are retried; all of them when unset */
+  shouldRetry?: RetryPredicate
+  /** Current attempt, from 1 */
+  attempt: number
+  /** Upload progress - sends the request through XHR, which reports it */
+  onUploadProgress?: (bytesSent: number, totalBytes: number) => void
+  onUploadComplete?: () => void
+  /** Called before each retry, after the failed attempt */
+  onRetry?: (retry: RetryEvent) => void
+}
+
+/**
+ * A failed attempt that is about to be retried
+ */
+export interface RetryEvent {
+  /** Attempt about to start, from 2 */
+  attempt: number
+  maxAttempts: number
+  /** Wait before the attempt - the backoff, or the server's Retry-After */
+  delayMs: number
+  /** Why the previous attempt failed */
+  error: ApiError
+}
+
+/**
+ * Whether a retryable failure should be retried - retryAfterMs is the
+ * server's Retry-After, null when it sent none (or there was no response)
+ */
+export type RetryPredicate = (error: ApiError, retryAfterMs: number | null) => boolean
+
+export type HttpHandler = (request: HttpRequest) => Promise<Response>
+
+/**
+ * Wraps the rest of the chain: change the request, call next (any number of
+ * times), inspect or replace the response, or throw to fail the request
+ */
+export type Middleware = (request: HttpRequest, next: HttpHandler) => Promise<Response>
+
+/**
+ * Send a request with fetch, or XHR when upload progress is wanted
+ */
+export const fetchTransport: HttpHandler = (request) => {
+  if (request.method === 'POST' && (request.onUploadProgress || request.onUploadComplete)) {
+    return postWithProgress(request.url, {
+      headers: request.headers,
+      body: request.body as XMLHttpRequestBodyInit,
+      signal: request.signal,
+      onUploadProgress: request.onUploadProgress,
+      onUploadComplete: request.onUploadComplete,
+    })
+  }
+
+  return fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  })
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+export interface Endpoint<Input, Output> {
+  /** Human-readable name, used in error messages ("List documents failed with status 500") */
+  name: string
+  method: HttpMethod
+  /** Full URL - resolved per call, so base URL settings apply immediately */
+  url: (input: Input) => string
+  /** Request body; plain objects and arrays are sent as JSON */
+  body?: (input: Input) => BodyInit | Record<string, any> | any[]
+  headers?: Record<string, string>
+  /** How the response is read: JSON (default), text, or the Response itself for streaming */
+  responseType?: 'json' | 'text' | 'response'
+  /** Shape the response data into the endpoint's output; throwing fails with a parse error */
+  transform?: (data: any, input: Input) => Output
+  /** Defaults for this endpoint; request options override them */
+  timeoutMs?: number
+  maxAttempts?: number
+  shouldRetry?: RetryPredicate
+}
+
+/**
+ * Declare an endpoint with its input and output types
+ */
+export function defineEndpoint<Input, Output>(
+  endpoint: Endpoint<Input, Output>
+): Endpoint<Input, Output> {
+  return endpoint
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+  maxAttempts?: number
+  headers?: Record<string, string>
+  onUploadProgress?: (bytesSent: number, totalBytes: number) => void
+  onUploadComplete?: () => void
+  onRetry?: (retry: RetryEvent) => void
+}
+
+function isRawBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === 'string' ||
+    body instanceof FormData ||
+    body instanceof Blob ||
+    body instanceof URLSearchParams ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+  )
+}
+
+// =============================================================================
+// Client
+// =============================================================================
+
+export interface HttpClientOptions {
+  /** Outermost first */
+  middleware?: Middleware[]
+  transport?: HttpHandler
+}
+
+export interface HttpClient {
+  request: <Input, Output>(
+    endpoint: Endpoint<Input, Output>,
+    input: Input,
+    options?: RequestOptions
+  ) => Promise<Result<Output, ApiError>>
+  /** Add a middleware inside the existing ones */
+  use: (middleware: Middleware) => void
+}
+
+export function createHttpClient(options: HttpClientOptions = {}): HttpClient {
+  const middleware = [...(options.middleware ?? [])]
+  const transport = options.transport ?? fetchTransport
+
+  const send: HttpHandler = (request) =>
+    middleware.reduceRight<HttpHandler>(
+      (next, current) => (req) => current(req, next),
+      transport
+    )(request)
+
+  const request = async <Input, Output>(
+    endpoint: Endpoint<Input, Output>,
+    input: Input,
+    requestOptions: RequestOptions = {}
+  ): Promise<Result<Output, ApiError>> => {
+    const headers: Record<string, string> = { ...endpoint.headers, ...requestOptions.headers }
+    let url: string
+    let body: BodyInit | undefined
+
+    try {
+      url = endpoint.url(input)
+      const rawBody = endpoint.body?.(input)
+      if (rawBody !== undefined) {
+        if (isRawBody(rawBody)) {
+          body = rawBody
+        } else {
+          body = JSON.stringify(rawBody)
+          headers['Content-Type'] ??= 'application/json'
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return err(new ApiError('config', message, { endpoint: endpoint.name, cause: error }))
+    }
+
+    let response: Response
+    try {
+      response = await send({
+        endpoint: endpoint.name,
+        method: endpoint.method,
+        url,
+        headers,
+        body,
+        signal: requestOptions.signal,
+        timeoutMs: requestOptions.timeoutMs ?? endpoint.timeoutMs ?? 0,
+        maxAttempts: Math.max(requestOptions.maxAttempts ?? endpoint.maxAttempts ?? 1, 1),
+        shouldRetry: endpoint.shouldRetry,
+        attempt: 1,
+        onUploadProgress: requestOptions.onUploadProgress,
+        onUploadComplete: requestOptions.onUploadComplete,
+        onRetry: requestOptions.onRetry,
+      })
+    } catch (error) {
+      return err(toApiError(error, endpoint.name))
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '')
+      const serverMessage = extractErrorMessage(errorBody)
+      return err(
+        new ApiError(
+          'http',
+          `${endpoint.name} failed with status ${response.status}` +
+            (serverMessage ? `: ${serverMessage}` : response.statusText ? ` (${response.statusText})` : ''),
+          {
+            endpoint: endpoint.name,
+            status: response.status,
+            statusText: response.statusText,
+            body: errorBody,
+          }
+        )
+      )
+    }
+
+    const responseType = endpoint.responseType ?? 'json'
+    let data: any = response
+
+    if (responseType !== 'response') {
+      let text: string
+      try {
+        text = await response.text()
+      } catch (error) {
+        return err(toApiError(error, endpoint.name))
+      }
+
+      if (responseType === 'text') {
+        data = text
+      } else {
+        try {
+          data = text.trim() ? JSON.parse(text) : null
+        } catch (error) {
+          return err(
+            new ApiError('parse', `${endpoint.name} returned invalid JSON`, {
+              endpoint: endpoint.name,
+              status: response.status,
+              body: text,
+              cause: error,
+            })
+          )
+        }
+      }
+    }
+
+    try {
+      return ok(endpoint.transform ? endpoint.transform(data, input) : (data as Output))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return err(
+        new ApiError('parse', `${endpoint.name} returned an unexpected response: ${message}`, {
+          endpoint: endpoint.name,
+          status: response.status,
+          cause: error,
+        })
+      )
+    }
+  }
+
+  return {
+    request,
+    use: (added) => {
+      middleware.push(added)
+    },
+  }
+}
+
+// =============================================================================
+// Middleware
+// =============================================================================
+
+/**
+ * Add the API key header; fails with a config error when there is no key
+ */
+export function createAuthMiddleware(options: {
+  getApiKey: () => string
+  header?: string
+  missingKeyMessage?: string
+}): Middleware {
+  const { getApiKey, header = 'x-api-key', missingKeyMessage = 'API key not configured' } = options
+
+  return (request, next) => {
+    const apiKey = getApiKey()
+    if (!apiKey) {
+      throw new ApiError('config', missingKeyMessage, { endpoint: request.endpoint })
+    }
+    return next({ ...request, headers: { ...request.headers, [header]: apiKey } })
+  }
+}
+
+/**
+ * Log every attempt with its status and duration. Opt-in: add it to a
+ * client only where the logs are wanted (lyzrClient does in development).
+ */
+export function createLoggingMiddleware(
+  log: (message: string) => void = (message) => console.debug(message)
+): Middleware {
+  return async (request, next) => {
+    const started = Date.now()
+    const label = `${request.method} ${request.endpoint}` +
+      (request.maxAttempts > 1 ? ` (attempt ${request.attempt}/${request.maxAttempts})` : '')
+
+    try {
+      const response = await next(request)
+      log(`[http] ${label} -> ${response.status} in ${Date.now() - started} ms`)
+      return response
+    } catch (error) {
+      const apiError = toApiError(error, request.endpoint)
+      log(`[http] ${label} -> ${apiError.kind}: ${apiError.message} in ${Date.now() - started} ms`)
+      throw error
+    }
+  }
+}
+
+/**
+ * Abort an attempt that has no response headers after request.timeoutMs.
+ * The caller's signal keeps working, including while a streamed body is read.
+ */
+export function createTimeoutMiddleware(): Middleware {
+  return async (request, next) => {
+    if (!request.timeoutMs) return next(request)
+
+    const controller = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, request.timeoutMs)
+
+    const abort = () => controller.abort()
+    if (request.signal?.aborted) controller.abort()
+    request.signal?.addEventListener('abort', abort, { once: true })
+
+    let response: Response | undefined
+    try {
+      response = await next({ ...request, signal: controller.signal })
+      return response
+    } catch (error) {
+      if (timedOut) {
+        const limit = request.timeoutMs < 1000
+          ? `${request.timeoutMs} ms`
+          : `${Math.round(request.timeoutMs / 1000)}s`
+        throw new ApiError('timeout', `Request timed out after ${limit}`, {
+          endpoint: request.endpoint,
+          cause: error,
+        })
+      }
+      throw error
+    } finally {
+      clearTimeout(timer)
+      // A returned body may still be streaming and must stay abortable; a
+      // failed attempt lets go of the caller's signal so retries don't pile up
+      if (!response) request.signal?.removeEventListener('abort', abort)
+    }
+  }
+}
+
+/**
+ * Wait, rejecting with an AbortError if the signal fires first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'))
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The request was aborted', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (delay in seconds or an
+ * HTTP date); null if missing or unreadable
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null
+
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000)
+  }
+
+  // An HTTP date names the day and month; Date.parse would also take "-1"
+  const date = /[a-z]/i.test(value) ? Date.parse(value) : NaN
+  return Number.isNaN(date) ? null : Math.max(date - now, 0)
+}
+
+/**
+ * Retry network errors, timeouts and 408/429/5xx responses up to
+ * request.maxAttempts, with exponential backoff and jitter. A Retry-After
+ * header replaces the backoff; one asking for more than maxRetryAfterMs
+ * ends the retries and the response is returned as is. request.shouldRetry
+ * can narrow this down further.
+ */
+export function createRetryMiddleware(
+  options: { baseDelayMs?: number; maxDelayMs?: number; maxRetryAfterMs?: number } = {}
+): Middleware {
+  const { baseDelayMs = 1000, maxDelayMs = 15000, maxRetryAfterMs = 60000 } = options
+
+  return async (request, next) => {
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= request.maxAttempts
+      let delayMs = getRetryDelay(attempt, baseDelayMs, maxDelayMs)
+      let failure: ApiError
+
+      try {
+        const response = await next({ ...request, attempt })
+        if (isLastAttempt || !isRetryableStatus(response.status)) return response
+
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+        if (retryAfterMs !== null) {
+          if (retryAfterMs > maxRetryAfterMs) return response
+          delayMs = retryAfterMs
+        }
+
+        failure = new ApiError('http', `${request.endpoint} failed with status ${response.status}`, {
+          endpoint: request.endpoint,
+          status: response.status,
+          statusText: response.statusText,
+        })
+        if (request.shouldRetry && !request.shouldRetry(failure, retryAfterMs)) return response
+
+        // Free the connection before trying again
+        await response.body?.cancel().catch(() => undefined)
+      } catch (error) {
+        failure = toApiError(error, request.endpoint)
+        if (isLastAttempt || !failure.retryable) throw failure
+        if (request.shouldRetry && !request.shouldRetry(failure, null)) throw failure
+      }
+
+      request.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: request.maxAttempts,
+        delayMs,
+        error: failure,
+      })
+      await sleep(delayMs, request.signal)
+    }
+  }
+}
@@ -1,204 +1,689 @@
 /**
- * Robust JSON Parser with 5-strategy fallback
- * Handles malformed JSON responses from AI agents
+ * JSON Parser
+ *
+ * One recovery engine for everything the app reads out of agent output -
+ * chat answers, SSE event data and streamed text. Input runs through a
+ * fixed pipeline; each call site picks which strategies are enabled:
+ *
+ *   direct             JSON.parse as is
+ *   clean              repair comments, trailing commas, single or
+ *                      typographic quotes, bare keys, Python literals and raw
+ *                      control characters in strings, then parse
+ *   extract            JSON from ``` blocks, inline code or surrounding prose
+ *   streaming_partial  a JSON prefix cut off mid-stream, with open strings,
+ *                      arrays and objects closed
+ *   partial            "key": value pairs salvaged from otherwise broken text
+ *   decode             JSON held in a string (double-encoded output)
+ *   unwrap             envelopes like { "response": "{...}" }, down to the
+ *                      agent's { status, result } object
+ *
+ * The result names the strategy that recovered the value, the trace of
+ * every step that shaped it and diagnostics describing what was tried and
+ * repaired, so both call sites fail - and recover - the same way.
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseJson(rawText, AGENT_RESPONSE_PARSE_OPTIONS)
+ * if (parsed.success) {
+ *   console.log(parsed.trace) // ['extract', 'clean', 'unwrap']
+ * } else {
+ *   console.warn(parsed.error, parsed.diagnostics)
+ * }
+ * ```
  */
 
-export interface ParseResult<T> {
+import { createStreamingJsonParser, type StreamingJsonSnapshot } from '@/lib/streaming-json'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ParseStrategy =
+  | 'direct'
+  | 'clean'
+  | 'extract'
+  | 'streaming_partial'
+  | 'partial'
+  | 'decode'
+  | 'unwrap'
+
+export interface ParseDiagnostic {
+  strategy: ParseStrategy
+  message: string
+}
+
+export interface ParseResult<T = unknown> {
   success: boolean
   data?: T
+  /** Trimmed input text */
   raw?: string
   error?: string
-  strategy?: string
+  /** Strategy that recovered the JSON; null when none did */
+  strategy: ParseStrategy | null
+  /** Steps that produced `data`, in order, e.g. ['extract', 'clean', 'unwrap'] */
+  trace: ParseStrategy[]
+  /** What each step tried, repaired or gave up on */
+  diagnostics: ParseDiagnostic[]
 }
 
+export interface ParseOptions {
+  /** Enabled strategies; they always run in pipeline order */
+  strategies?: ParseStrategy[]
+  /** Envelope keys unwrap descends into, in order of preference */
+  unwrapKeys?: string[]
+  maxUnwrapDepth?: number
+  /** Levels of JSON-in-a-string that decode undoes */
+  maxDecodeDepth?: number
+  /** Candidates extract tries before giving up */
+  maxCandidates?: number
+}
+
+export const DEFAULT_PARSE_STRATEGIES: ParseStrategy[] = [
+  'direct',
+  'clean',
+  'extract',
+  'streaming_partial',
+  'partial',
+  'decode',
+]
+
+export const DEFAULT_UNWRAP_KEYS = [
+  'raw_response',
+  'rawResponse',
+  'response',
+  'data',
+  'result',
+  'output',
+  'content',
+  'message',
+  'text',
+  'completion',
+]
+
 /**
- * Clean JSON string by removing common issues
+ * Agent answers: unwrap the inference envelope down to { status, result }.
+ * Truncated text is not recovered - a cut-off answer should fail rather
+ * than render shorter than it is.
  */
-function cleanJsonString(input: string): string {
-  let cleaned = input.trim()
+export const AGENT_RESPONSE_PARSE_OPTIONS: ParseOptions = {
+  strategies: ['direct', 'clean', 'extract', 'decode', 'unwrap'],
+}
 
-  // Remove trailing commas before closing brackets/braces
-  cleaned = cleaned.replace(/,(\s*[}\]])/g, '$1')
+const NO_JSON_ERROR = 'No valid JSON found in the response'
 
-  // Remove control characters except newlines and tabs
-  cleaned = cleaned.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+// =============================================================================
+// Clean: String-Aware Repair
+// =============================================================================
 
-  // Fix unescaped newlines in strings (common AI issue)
-  cleaned = cleaned.replace(/(?<!\\)\\n/g, '\\n')
+type RepairFix =
+  | 'bom'
+  | 'comments'
+  | 'trailing_commas'
+  | 'single_quotes'
+  | 'smart_quotes'
+  | 'unquoted_keys'
+  | 'python_literals'
+  | 'control_characters'
+  | 'ellipsis'
 
-  // Remove BOM if present
-  cleaned = cleaned.replace(/^\uFEFF/, '')
+const REPAIR_MESSAGES: Record<RepairFix, string> = {
+  bom: 'Removed byte order mark',
+  comments: 'Removed comments',
+  trailing_commas: 'Removed trailing commas',
+  single_quotes: 'Converted single-quoted strings',
+  smart_quotes: 'Replaced typographic quotes',
+  unquoted_keys: 'Quoted bare keys',
+  python_literals: 'Converted True/False/None/undefined',
+  control_characters: 'Escaped raw control characters in strings',
+  ellipsis: 'Removed ellipses',
+}
+
+// Opening quote -> closing quote
+const QUOTES: Record<string, string> = { '"': '"', "'": "'", '“': '”', '‘': '’' }
 
-  return cleaned
+const LITERALS = new Map([
+  ['True', 'true'],
+  ['False', 'false'],
+  ['None', 'null'],
+  ['undefined', 'null'],
+  ['NaN', 'null'],
+])
+
+function escapeControlCharacter(ch: string): string {
+  switch (ch) {
+    case '\n':
+      return '\\n'
+    case '\r':
+      return '\\r'
+    case '\t':
+      return '\\t'
+    default:
+      return `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`
+  }
 }
 
 /**
- * Extract JSON from mixed text/markdown response
+ * Index after the comment starting at `from`, or -1 if there is none
  */
-function extractJsonFromText(input: string): string | null {
-  // Try to find JSON in code blocks first
-  const codeBlockMatch = input.match(/```(?:json)?\s*([\s\S]*?)```/)
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim()
+function skipComment(text: string, from: number): number {
+  if (text[from] === '#' || text.startsWith('//', from)) {
+    const end = text.indexOf('\n', from)
+    return end === -1 ? text.length : end
   }
+  if (text.startsWith('/*', from)) {
+    const end = text.indexOf('*/', from + 2)
+    return end === -1 ? text.length : end + 2
+  }
+  return -1
+}
 
-  // Look for JSON object pattern
-  const objectMatch = input.match(/\{[\s\S]*\}/)
-  if (objectMatch) {
-    // Find the balanced braces
-    const str = input
-    let depth = 0
-    let start = -1
-    let end = -1
+/**
+ * Next index that is not whitespace, a comment or an ellipsis
+ */
+function skipFiller(text: string, from: number): number {
+  let i = from
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++
+    } else if (text.startsWith('...', i)) {
+      i += 3
+    } else if (text[i] === '…') {
+      i++
+    } else {
+      const end = skipComment(text, i)
+      if (end === -1) break
+      i = end
+    }
+  }
+  return i
+}
 
-    for (let i = 0; i < str.length; i++) {
-      if (str[i] === '{') {
-        if (depth === 0) start = i
-        depth++
-      } else if (str[i] === '}') {
-        depth--
-        if (depth === 0) {
-          end = i + 1
+/**
+ * Rewrite the usual LLM deviations from JSON in one pass. Outside strings
+ * it drops comments, ellipses and trailing commas, quotes bare keys and maps
+ * Python literals; strings come out double-quoted with raw control
+ * characters escaped. An unterminated string is left open.
+ */
+function repairJson(input: string): { text: string; fixes: RepairFix[] } {
+  const fixes = new Set<RepairFix>()
+  let text = input
+  if (text.charCodeAt(0) === 0xfeff) {
+    text = text.slice(1)
+    fixes.add('bom')
+  }
+
+  let out = ''
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+
+    if (ch in QUOTES) {
+      const close = QUOTES[ch]
+      if (ch === "'") fixes.add('single_quotes')
+      else if (ch !== '"') fixes.add('smart_quotes')
+
+      let value = '"'
+      let j = i + 1
+      for (; j < text.length; j++) {
+        const c = text[j]
+        if (c === '\\') {
+          const next = text[j + 1]
+          if (next === undefined) {
+            value += c
+            j = text.length
+            break
+          }
+          // \' is not a JSON escape
+          value += next === "'" ? next : c + next
+          j++
+        } else if (c === close) {
           break
+        } else if (c === '"') {
+          value += '\\"'
+        } else if (c < ' ') {
+          value += escapeControlCharacter(c)
+          fixes.add('control_characters')
+        } else {
+          value += c
         }
       }
+      out += j < text.length ? `${value}"` : value
+      i = j + 1
+      continue
     }
 
-    if (start !== -1 && end !== -1) {
-      return str.substring(start, end)
+    const commentEnd = skipComment(text, i)
+    if (commentEnd !== -1) {
+      fixes.add('comments')
+      i = commentEnd
+      continue
     }
-  }
 
-  // Look for JSON array pattern
-  const arrayMatch = input.match(/\[[\s\S]*\]/)
-  if (arrayMatch) {
-    const str = input
-    let depth = 0
-    let start = -1
-    let end = -1
+    if (text.startsWith('...', i) || ch === '…') {
+      fixes.add('ellipsis')
+      i += ch === '.' ? 3 : 1
+      continue
+    }
 
-    for (let i = 0; i < str.length; i++) {
-      if (str[i] === '[') {
-        if (depth === 0) start = i
-        depth++
-      } else if (str[i] === ']') {
-        depth--
-        if (depth === 0) {
-          end = i + 1
-          break
-        }
+    if (ch === ',') {
+      const next = skipFiller(text, i + 1)
+      if (next >= text.length || text[next] === '}' || text[next] === ']') {
+        fixes.add('trailing_commas')
+      } else {
+        out += ch
       }
+      i++
+      continue
     }
 
-    if (start !== -1 && end !== -1) {
-      return str.substring(start, end)
+    if (/[A-Za-z_$]/.test(ch)) {
+      let j = i
+      while (j < text.length && /[\w$.-]/.test(text[j])) j++
+      const word = text.slice(i, j)
+
+      if (LITERALS.has(word)) {
+        out += LITERALS.get(word)
+        fixes.add('python_literals')
+      } else if (text[skipFiller(text, j)] === ':' && !['true', 'false', 'null'].includes(word)) {
+        out += `"${word}"`
+        fixes.add('unquoted_keys')
+      } else {
+        out += word
+      }
+      i = j
+      continue
     }
+
+    out += ch
+    i++
   }
 
-  return null
+  return { text: out, fixes: [...fixes] }
 }
 
+// =============================================================================
+// Streaming Partial: JSON Prefixes
+// =============================================================================
+
 /**
- * Attempt partial recovery of key-value pairs
+ * Streaming parser snapshot of the whole text received so far, repaired
+ * first - for output the incremental parser stops on (single quotes,
+ * Python literals, bare keys)
+ *
+ * @example
+ * ```typescript
+ * readPartialJson("{'answer': 'Refunds take 5 d").value
+ * // { answer: 'Refunds take 5 d' }
+ * ```
  */
-function partialRecovery(input: string): Record<string, unknown> | null {
-  const result: Record<string, unknown> = {}
+export function readPartialJson(text: string): StreamingJsonSnapshot {
+  return createStreamingJsonParser().push(repairJson(text).text)
+}
+
+/**
+ * Value of JSON received so far, from the first { or [ in the text: open
+ * strings, arrays and objects are closed and a member whose value has not
+ * started is left out. `complete` is true once the value is closed. Null
+ * if the text holds no JSON start or stops being JSON. Repairs the text
+ * first, then reads it in one go with the streaming parser; feed
+ * createStreamingJsonParser directly when the text arrives in chunks.
+ *
+ * @example
+ * ```typescript
+ * parsePartialJson('{"answer": "Refunds take 5 d')
+ * // { value: { answer: 'Refunds take 5 d' }, complete: false }
+ * ```
+ */
+export function parsePartialJson(text: string): { value: unknown; complete: boolean } | null {
+  const snapshot = readPartialJson(text)
+  if (!snapshot.started || snapshot.error) return null
+  return { value: snapshot.value, complete: snapshot.complete }
+}
 
-  // Match "key": value patterns
-  const kvPattern = /"([^"]+)"\s*:\s*("(?:[^"\\]|\\.)*"|true|false|null|\d+(?:\.\d+)?|\[[\s\S]*?\]|\{[\s\S]*?\})/g
-  let match
-  let foundAny = false
+// =============================================================================
+// Extract and Partial Recovery
+// =============================================================================
 
-  while ((match = kvPattern.exec(input)) !== null) {
-    const key = match[1]
-    const valueStr = match[2]
-    foundAny = true
+/**
+ * Index after the bracket that closes the one at `start`, or -1
+ */
+function findClosingBracket(text: string, start: number): number {
+  let depth = 0
+  let quote: string | null = null
 
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === '\\') i++
+      else if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '{' || ch === '[') {
+      depth++
+    } else if (ch === '}' || ch === ']') {
+      depth--
+      if (depth === 0) return i + 1
+    }
+  }
+  return -1
+}
+
+/**
+ * Places JSON may hide in mixed text, best first: ```json blocks, other
+ * code blocks, inline code, then balanced {...} / [...] spans, longest first
+ */
+function extractCandidates(text: string, limit: number): Array<{ json: string; source: string }> {
+  const candidates: Array<{ json: string; source: string }> = []
+  const looksLikeJson = (value: string) => /^[{[]/.test(value)
+
+  const fencePattern = /```([\w-]*)[^\S\n]*\n?([\s\S]*?)```/g
+  const fences = [...text.matchAll(fencePattern)].map((match) => ({
+    language: match[1].toLowerCase(),
+    json: match[2].trim(),
+  }))
+  fences
+    .filter((fence) => fence.language === 'json' && fence.json)
+    .forEach((fence) => candidates.push({ json: fence.json, source: 'a ```json block' }))
+  fences
+    .filter((fence) => fence.language !== 'json' && looksLikeJson(fence.json))
+    .forEach((fence) => candidates.push({ json: fence.json, source: 'a ``` block' }))
+
+  for (const match of text.replace(fencePattern, '').matchAll(/`([^`\n]+)`/g)) {
+    const json = match[1].trim()
+    if (looksLikeJson(json)) candidates.push({ json, source: 'inline code' })
+  }
+
+  // An unclosed bracket swallows the rest of the text
+  const spans: string[] = []
+  for (let i = text.search(/[{[]/); i !== -1 && i < text.length; ) {
+    const end = findClosingBracket(text, i)
+    if (end === -1) break
+    spans.push(text.slice(i, end))
+    const next = text.slice(end).search(/[{[]/)
+    i = next === -1 ? -1 : end + next
+  }
+  spans
+    .sort((a, b) => b.length - a.length)
+    .forEach((json) => candidates.push({ json, source: 'the surrounding text' }))
+
+  const unique = new Map(candidates.reverse().map((candidate) => [candidate.json, candidate]))
+  return [...unique.values()].reverse().slice(0, limit)
+}
+
+/**
+ * "key": value pairs anywhere in the text, flattened into one object
+ */
+function recoverKeyValuePairs(input: string): Record<string, unknown> | null {
+  const result: Record<string, unknown> = {}
+  const pairPattern = /"([^"]+)"\s*:\s*("(?:[^"\\]|\\.)*"|true|false|null|-?\d+(?:\.\d+)?|\[[\s\S]*?\]|\{[\s\S]*?\})/g
+  let found = false
+
+  for (const [, key, valueText] of input.matchAll(pairPattern)) {
+    found = true
     try {
-      result[key] = JSON.parse(valueStr)
+      result[key] = JSON.parse(valueText)
     } catch {
-      // If value parsing fails, store as string
-      result[key] = valueStr.replace(/^"|"$/g, '')
+      result[key] = valueText.replace(/^"|"$/g, '')
     }
   }
 
-  return foundAny ? result : null
+  return found ? result : null
+}
+
+// =============================================================================
+// Pipeline
+// =============================================================================
+
+interface Recovery {
+  value: unknown
+  strategy: ParseStrategy
+  trace: ParseStrategy[]
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]'
 }
 
 /**
- * Robust JSON parser with 5-strategy fallback
- *
- * Strategies:
- * 1. Direct JSON.parse()
- * 2. Clean string (trailing commas, escapes) then parse
- * 3. Extract JSON from mixed text/markdown
- * 4. Partial recovery (key-value pairs)
- * 5. Return as raw text fallback
- */
-export function robustJSONParse<T = unknown>(input: string): ParseResult<T> {
-  if (!input || typeof input !== 'string') {
-    return {
-      success: false,
-      raw: String(input),
-      error: 'Invalid input: expected string',
-      strategy: 'none'
+ * { status: "success" | "error", result | message } - what unwrap stops at
+ */
+function isAgentResponse(value: Record<string, unknown>): boolean {
+  return (value.status === 'success' || value.status === 'error') && ('result' in value || 'message' in value)
+}
+
+/**
+ * Text of SDK message shapes: { content: [{ text }] } or { choices: [{ message: { content } }] }
+ */
+function readMessageText(input: unknown): string | null {
+  const message = input as { content?: unknown; choices?: unknown }
+  if (Array.isArray(message?.content)) {
+    const texts = message.content
+      .map((part: any) => (typeof part === 'string' ? part : part?.text))
+      .filter((text) => typeof text === 'string' && text)
+    if (texts.length > 0) return texts.join('\n')
+  }
+  if (Array.isArray(message?.choices)) {
+    const texts = message.choices
+      .map((choice: any) => choice?.message?.content ?? choice?.delta?.content ?? choice?.text)
+      .filter((text) => typeof text === 'string' && text)
+    if (texts.length > 0) return texts.join('\n')
+  }
+  return null
+}
+
+/**
+ * Run the text-level strategies (direct to partial) until one yields a value
+ */
+function recoverValue(
+  text: string,
+  enabled: Set<ParseStrategy>,
+  maxCandidates: number,
+  diagnostics: ParseDiagnostic[]
+): Recovery | null {
+  const tryParse = (json: string): { ok: boolean; value?: unknown; error?: string } => {
+    try {
+      return { ok: true, value: JSON.parse(json) }
+    } catch (error) {
+      return { ok: false, error: errorMessage(error) }
     }
   }
 
-  const trimmed = input.trim()
+  // Parse as is, then repaired if clean is on
+  const parseCandidate = (json: string, strategy: ParseStrategy): Recovery | null => {
+    const direct = tryParse(json)
+    if (direct.ok) return { value: direct.value, strategy, trace: [strategy] }
+    if (!enabled.has('clean')) return null
+
+    const repaired = repairJson(json)
+    if (repaired.fixes.length === 0) return null
+    const cleaned = tryParse(repaired.text)
+    if (!cleaned.ok) return null
 
-  // Strategy 1: Direct parse
-  try {
-    const data = JSON.parse(trimmed) as T
-    return { success: true, data, strategy: 'direct' }
-  } catch {
-    // Continue to next strategy
+    repaired.fixes.forEach((fix) => diagnostics.push({ strategy: 'clean', message: REPAIR_MESSAGES[fix] }))
+    return {
+      value: cleaned.value,
+      strategy,
+      trace: strategy === 'clean' ? ['clean'] : [strategy, 'clean'],
+    }
   }
 
-  // Strategy 2: Clean and parse
-  try {
-    const cleaned = cleanJsonString(trimmed)
-    const data = JSON.parse(cleaned) as T
-    return { success: true, data, strategy: 'cleaned' }
-  } catch {
-    // Continue to next strategy
+  if (enabled.has('direct')) {
+    const direct = tryParse(text)
+    if (direct.ok) return { value: direct.value, strategy: 'direct', trace: ['direct'] }
+    diagnostics.push({ strategy: 'direct', message: direct.error })
   }
 
-  // Strategy 3: Extract JSON from text
-  const extracted = extractJsonFromText(trimmed)
-  if (extracted) {
-    try {
-      const data = JSON.parse(extracted) as T
-      return { success: true, data, strategy: 'extracted' }
-    } catch {
-      // Try cleaning the extracted JSON
-      try {
-        const cleanedExtracted = cleanJsonString(extracted)
-        const data = JSON.parse(cleanedExtracted) as T
-        return { success: true, data, strategy: 'extracted_cleaned' }
-      } catch {
-        // Continue to next strategy
+  if (enabled.has('clean')) {
+    const repaired = repairJson(text)
+    const cleaned = repaired.fixes.length > 0 ? tryParse(repaired.text) : { ok: false, error: 'Nothing to repair' }
+    if (cleaned.ok) {
+      repaired.fixes.forEach((fix) => diagnostics.push({ strategy: 'clean', message: REPAIR_MESSAGES[fix] }))
+      return { value: cleaned.value, strategy: 'clean', trace: ['clean'] }
+    }
+    diagnostics.push({ strategy: 'clean', message: cleaned.error })
+  }
+
+  if (enabled.has('extract')) {
+    const candidates = extractCandidates(text, maxCandidates)
+    for (const candidate of candidates) {
+      const recovered = parseCandidate(candidate.json, 'extract')
+      if (recovered) {
+        diagnostics.push({ strategy: 'extract', message: `Parsed JSON from ${candidate.source}` })
+        return recovered
       }
     }
+    diagnostics.push({
+      strategy: 'extract',
+      message: candidates.length > 0 ? `None of ${candidates.length} candidate(s) parsed` : 'No JSON found in the text',
+    })
   }
 
-  // Strategy 4: Partial recovery
-  const partial = partialRecovery(trimmed)
-  if (partial && Object.keys(partial).length > 0) {
-    return {
-      success: true,
-      data: partial as T,
-      strategy: 'partial_recovery'
+  if (enabled.has('streaming_partial')) {
+    const partial = parsePartialJson(text)
+    if (partial && !partial.complete) {
+      diagnostics.push({ strategy: 'streaming_partial', message: 'Input is cut off; kept the JSON received so far' })
+      return { value: partial.value, strategy: 'streaming_partial', trace: ['streaming_partial'] }
     }
+    diagnostics.push({ strategy: 'streaming_partial', message: 'Not a truncated JSON value' })
   }
 
-  // Strategy 5: Return as raw text fallback
-  return {
+  if (enabled.has('partial')) {
+    const recovered = recoverKeyValuePairs(text)
+    if (recovered) {
+      const count = Object.keys(recovered).length
+      diagnostics.push({ strategy: 'partial', message: `Recovered ${count} key-value pair(s) from broken JSON` })
+      return { value: recovered, strategy: 'partial', trace: ['partial'] }
+    }
+    diagnostics.push({ strategy: 'partial', message: 'No key-value pairs found' })
+  }
+
+  return null
+}
+
+/**
+ * Parse agent output with the recovery pipeline. Never throws.
+ *
+ * Strings are parsed; SDK message objects are read for their text; any
+ * other value counts as already parsed and only goes through decode and
+ * unwrap.
+ */
+export function parseJson<T = unknown>(input: unknown, options: ParseOptions = {}): ParseResult<T> {
+  const {
+    strategies = DEFAULT_PARSE_STRATEGIES,
+    unwrapKeys = DEFAULT_UNWRAP_KEYS,
+    maxUnwrapDepth = 6,
+    maxDecodeDepth = 3,
+    maxCandidates = 8,
+  } = options
+  const enabled = new Set(strategies)
+  const diagnostics: ParseDiagnostic[] = []
+
+  const fail = (error: string, raw?: string): ParseResult<T> => ({
     success: false,
-    raw: trimmed,
-    error: 'All parsing strategies failed',
-    strategy: 'raw_fallback'
+    raw,
+    error,
+    strategy: null,
+    trace: [],
+    diagnostics,
+  })
+
+  if (input === null || input === undefined) return fail('Empty input')
+
+  let recovery: Recovery | null
+  let raw: string | undefined
+  const text = typeof input === 'string' ? input : readMessageText(input)
+
+  if (text === null) {
+    recovery = { value: input, strategy: 'direct', trace: ['direct'] }
+    diagnostics.push({ strategy: 'direct', message: 'Input was already parsed' })
+  } else {
+    raw = text.trim()
+    if (!raw) return fail('Empty input', raw)
+    recovery = recoverValue(raw, enabled, maxCandidates, diagnostics)
+    if (!recovery) return fail(NO_JSON_ERROR, raw)
+  }
+
+  let { value } = recovery
+  const trace = [...recovery.trace]
+
+  // Strings holding JSON are parsed again, a level at a time
+  const decode = (current: unknown): { value: unknown; levels: number } => {
+    let levels = 0
+    while (enabled.has('decode') && levels < maxDecodeDepth) {
+      if (typeof current !== 'string' || !/^\s*["{[]/.test(current)) break
+      const inner = recoverValue(current.trim(), new Set<ParseStrategy>(['direct', 'clean']), 0, [])
+      if (!inner) break
+      current = inner.value
+      levels++
+    }
+    return { value: current, levels }
+  }
+
+  const recordDecode = (levels: number) => {
+    for (let level = 1; level <= levels; level++) {
+      trace.push('decode')
+      diagnostics.push({ strategy: 'decode', message: `Decoded JSON held in a string (level ${level})` })
+    }
+  }
+
+  const decoded = decode(value)
+  value = decoded.value
+  recordDecode(decoded.levels)
+
+  if (enabled.has('unwrap')) {
+    const innerStrategies = new Set(strategies.filter((s) => ['direct', 'clean', 'extract'].includes(s)))
+
+    for (let depth = 0; depth < maxUnwrapDepth; depth++) {
+      if (!isPlainObject(value) || isAgentResponse(value)) break
+
+      let next: { key: string; value: unknown; levels: number } | null = null
+      for (const key of unwrapKeys) {
+        const field = value[key]
+        if (typeof field === 'string') {
+          // Only JSON objects and arrays count; a plain message stays where it is
+          const inner = recoverValue(field.trim(), innerStrategies, maxCandidates, [])
+          const innerDecoded = inner && decode(inner.value)
+          if (innerDecoded?.value && typeof innerDecoded.value === 'object') {
+            next = { key, ...innerDecoded }
+            break
+          }
+        } else if (field && typeof field === 'object') {
+          next = { key, value: field, levels: 0 }
+          break
+        }
+      }
+
+      if (!next) break
+      value = next.value
+      trace.push('unwrap')
+      diagnostics.push({ strategy: 'unwrap', message: `Unwrapped "${next.key}"` })
+      recordDecode(next.levels)
+    }
   }
+
+  return {
+    success: true,
+    data: value as T,
+    raw,
+    strategy: recovery.strategy,
+    trace,
+    diagnostics,
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Diagnostics as one line per step, for error details and logs
+ */
+export function formatParseDiagnostics(result: Pick<ParseResult, 'diagnostics'>): string {
+  return result.diagnostics.map((diagnostic) => `${diagnostic.strategy}: ${diagnostic.message}`).join('\n')
 }
 
 /**
@@ -215,11 +700,14 @@ export function parseSSEData<T = unknown>(data: string): ParseResult<T> {
     return {
       success: true,
       data: { done: true } as T,
-      strategy: 'sse_done'
+      raw: data,
+      strategy: 'direct',
+      trace: ['direct'],
+      diagnostics: [],
     }
   }
 
-  return robustJSONParse<T>(data)
+  return parseJson<T>(data)
 }
 
 /**
@@ -230,7 +718,7 @@ export function safeGet<T>(
   key: string,
   defaultValue: T
 ): T {
-  if (result.success && result.data && key in result.data) {
+  if (result.success && isPlainObject(result.data) && key in result.data) {
     return result.data[key] as T
   }
   return defaultValue
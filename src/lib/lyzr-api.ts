@@ -0,0 +1,207 @@
+/**
+ * Lyzr API
+ *
+ * Typed definitions of every Lyzr endpoint the app calls and the shared
+ * client that sends them. The client adds the API key, logs each attempt,
+ * applies per-endpoint timeouts and retries idempotent requests, so the
+ * agent, upload and knowledge base utilities all fail the same way - with
+ * an ApiError in a Result.
+ *
+ * @example
+ * ```typescript
+ * import { lyzrClient, listDocumentsEndpoint } from '@/lib/lyzr-api'
+ *
+ * const result = await lyzrClient.request(listDocumentsEndpoint, { ragId })
+ * if (!result.ok) console.error(result.error.kind, result.error.message)
+ * ```
+ */
+
+import {
+  createAuthMiddleware,
+  createHttpClient,
+  createLoggingMiddleware,
+  createRetryMiddleware,
+  createTimeoutMiddleware,
+  defineEndpoint,
+  type RetryPredicate,
+} from '@/lib/http-client'
+import { API_KEY_MISSING_MESSAGE, getAgentApiUrl, getApiKey, getRagApiUrl } from '@/lib/runtime-config'
+import type { RAGTrainingDocument } from '@/utils/documentParsers'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Body of /inference/chat/ and /inference/stream/
+ */
+export interface AgentInferenceRequest {
+  message: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+  /** Asset IDs from the upload endpoint */
+  assets?: string[]
+  /** Knowledge base document names retrieval is restricted to */
+  document_scope?: string[]
+  /** Stable across retries of one call, so a retried request can be recognised */
+  request_id?: string
+}
+
+export interface AssetUploadResult {
+  asset_id?: string
+  file_name?: string
+  success?: boolean
+  error?: string
+}
+
+export interface AssetUploadApiResponse {
+  results?: AssetUploadResult[]
+  total_files?: number
+  successful_uploads?: number
+  failed_uploads?: number
+}
+
+export interface ParseApiResponse {
+  documents?: RAGTrainingDocument[]
+}
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+const TWO_MINUTES = 2 * 60 * 1000
+const FIVE_MINUTES = 5 * 60 * 1000
+
+/**
+ * Retry an agent call only when the model cannot have seen it: the connection
+ * failed, or the server turned it away with 429/503 and a Retry-After. A
+ * timeout or another 5xx may come after the model ran, and the API does not
+ * de-duplicate on request_id, so a retry would answer (and bill) twice.
+ */
+const retryIfNotProcessed: RetryPredicate = (error, retryAfterMs) =>
+  error.kind === 'network' ||
+  ((error.status === 429 || error.status === 503) && retryAfterMs !== null)
+
+/**
+ * Agent answer as raw text - the caller runs it through the LLM JSON parser
+ */
+export const agentChatEndpoint = defineEndpoint<AgentInferenceRequest, string>({
+  name: 'Agent chat',
+  method: 'POST',
+  url: () => getAgentApiUrl('/inference/chat/'),
+  body: (request) => request,
+  responseType: 'text',
+  timeoutMs: TWO_MINUTES,
+  maxAttempts: 3,
+  shouldRetry: retryIfNotProcessed,
+})
+
+/**
+ * Streamed agent answer; the timeout covers the wait for the first byte only
+ */
+export const agentStreamEndpoint = defineEndpoint<AgentInferenceRequest, Response>({
+  name: 'Agent stream',
+  method: 'POST',
+  url: () => getAgentApiUrl('/inference/stream/'),
+  body: (request) => request,
+  headers: { 'Accept': 'text/event-stream' },
+  responseType: 'response',
+  timeoutMs: TWO_MINUTES,
+  maxAttempts: 3,
+  shouldRetry: retryIfNotProcessed,
+})
+
+export const uploadAssetsEndpoint = defineEndpoint<{ files: File[] }, AssetUploadApiResponse>({
+  name: 'Upload',
+  method: 'POST',
+  url: () => getAgentApiUrl('/assets/upload'),
+  body: ({ files }) => {
+    // The browser sets the multipart Content-Type with its boundary
+    const formData = new FormData()
+    files.forEach((file) => formData.append('files', file, file.name))
+    return formData
+  },
+  transform: (data) => data ?? {},
+  timeoutMs: FIVE_MINUTES,
+})
+
+export const ingestAssetsEndpoint = defineEndpoint<{ rag_id: string; asset_ids: string[] }, string>({
+  name: 'Ingestion',
+  method: 'POST',
+  url: () => getAgentApiUrl('/rag/ingest'),
+  body: (request) => request,
+  responseType: 'text',
+  timeoutMs: FIVE_MINUTES,
+})
+
+/**
+ * Trained document names, e.g. ["storage/report.pdf"]; 404 means none yet
+ */
+export const listDocumentsEndpoint = defineEndpoint<{ ragId: string }, string[]>({
+  name: 'List documents',
+  method: 'GET',
+  url: ({ ragId }) => getRagApiUrl(`/rag/documents/${ragId}/`),
+  headers: { 'Accept': 'application/json' },
+  transform: (data) => (Array.isArray(data) ? data.filter((name) => typeof name === 'string') : []),
+  timeoutMs: 30 * 1000,
+  maxAttempts: 3,
+})
+
+export const parseDocumentEndpoint = defineEndpoint<{ type: string; form: FormData }, RAGTrainingDocument[]>({
+  name: 'Document parsing',
+  method: 'POST',
+  url: ({ type }) => getRagApiUrl(`/parse/${type}/`),
+  body: ({ form }) => form,
+  transform: (data: ParseApiResponse | null) => {
+    if (!data?.documents || !Array.isArray(data.documents)) {
+      throw new Error('no documents array')
+    }
+    return data.documents
+  },
+  timeoutMs: FIVE_MINUTES,
+})
+
+export const trainDocumentsEndpoint = defineEndpoint<
+  { ragId: string; documents: RAGTrainingDocument[] },
+  string
+>({
+  name: 'Knowledge base training',
+  method: 'POST',
+  url: ({ ragId }) => getRagApiUrl(`/rag/train/${ragId}/`),
+  body: ({ documents }) => documents,
+  headers: { 'Accept': 'application/json' },
+  responseType: 'text',
+  timeoutMs: FIVE_MINUTES,
+})
+
+/**
+ * Remove documents by stored name ("storage/<file name>")
+ */
+export const deleteDocumentsEndpoint = defineEndpoint<{ ragId: string; documents: string[] }, string>({
+  name: 'Delete documents',
+  method: 'DELETE',
+  url: ({ ragId }) => getRagApiUrl(`/rag/${ragId}/docs/`),
+  body: ({ documents }) => documents,
+  headers: { 'Accept': 'application/json' },
+  responseType: 'text',
+  timeoutMs: 30 * 1000,
+  maxAttempts: 3,
+})
+
+// =============================================================================
+// Client
+// =============================================================================
+
+/**
+ * Shared client for all Lyzr calls. Retries wrap logging so every attempt
+ * is logged - in development builds only; the timeout applies per attempt.
+ */
+export const lyzrClient = createHttpClient({
+  middleware: [
+    createAuthMiddleware({ getApiKey, missingKeyMessage: API_KEY_MISSING_MESSAGE }),
+    createRetryMiddleware(),
+    ...(import.meta.env.DEV ? [createLoggingMiddleware()] : []),
+    createTimeoutMiddleware(),
+  ],
+})
@@ -0,0 +1,266 @@
+/**
+ * Agent Response Schemas
+ *
+ * Runtime validation of `NormalizedAgentResponse.result` against the shape
+ * each agent promises in response_schemas/. Agents with a hand-written
+ * schema here get recoverable mismatches coerced (confidence "0.8" or "80%",
+ * sources given as plain strings, a single related question as a string);
+ * other agents are checked strictly with the validators generated into
+ * src/generated/agent-responses.ts. Failures come back as a
+ * ResponseValidationError listing the offending fields, so the UI can show
+ * an error instead of rendering half an answer. While a response streams
+ * in, a schema's `partial` reader turns the parser snapshot into the
+ * fields that are safe to show so far.
+ *
+ * @example
+ * ```typescript
+ * const schema = getAgentResponseSchema(agent) ?? knowledgeSearchResponseSchema
+ * const validated = validateAgentResult(schema, response.result)
+ * if (validated.ok) {
+ *   render(validated.value)
+ * } else {
+ *   console.warn(validated.error.issues)
+ * }
+ * ```
+ */
+
+import { z } from 'zod'
+import type { Result } from '@/lib/http-client'
+import type { JsonPath, StreamingJsonSnapshot } from '@/lib/streaming-json'
+import { GENERATED_RESPONSE_SCHEMAS } from '@/generated/agent-responses'
+import type { AgentConfig } from '@/lib/workspace-config'
+import type { KnowledgeSearchResult, SourceCitation } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentResponseSchema<T = unknown> {
+  /** Name used in validation errors */
+  name: string
+  /** Validates and coerces the agent's `result` object */
+  result: z.ZodType<T>
+  /** Best-effort result from a response still streaming in; null if nothing can be shown yet */
+  partial?: (snapshot: StreamingJsonSnapshot) => T | null
+}
+
+export interface ResponseValidationIssue {
+  /** Field path, e.g. "sources[2].document_name"; empty for the result itself */
+  path: string
+  message: string
+}
+
+export class ResponseValidationError extends Error {
+  /** Schema the result was checked against */
+  readonly schema: string
+  readonly issues: ResponseValidationIssue[]
+
+  constructor(schema: string, issues: ResponseValidationIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+      .join('; ')
+    super(`Agent response did not match the ${schema} format (${summary})`)
+    this.name = 'ResponseValidationError'
+    this.schema = schema
+    this.issues = issues
+  }
+}
+
+// =============================================================================
+// Coercion Helpers
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * "0.8" -> 0.8, "80%" -> 0.8; anything else is left for the schema to reject
+ */
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+
+  const text = value.trim()
+  const isPercent = text.endsWith('%')
+  const number = Number(isPercent ? text.slice(0, -1) : text)
+  if (!text || Number.isNaN(number)) return value
+
+  return isPercent ? number / 100 : number
+}
+
+/**
+ * Missing -> empty list, a single value -> a list of one
+ */
+function coerceList(value: unknown): unknown {
+  if (value === undefined || value === null) return []
+  if (typeof value === 'string') return value.trim() ? [value] : []
+  return value
+}
+
+// "report.pdf (p. 3)", "report.pdf, page 3", "report.pdf - pg 3"; the marker
+// must follow a separator, so "Setup Step 2" is a name, not "Setup Ste" p. 2
+const SOURCE_PAGE_PATTERN = /^(.*?)[\s,;(-]+(?:p|pg|page)(?:\.|\b)\s*(\d+)\)?\s*$/i
+
+/**
+ * Sources as plain strings or with alternative field names -> SourceCitation
+ */
+function coerceSource(value: unknown, index: number): unknown {
+  if (typeof value === 'string') {
+    const match = value.trim().match(SOURCE_PAGE_PATTERN)
+    return {
+      citation_number: index + 1,
+      document_name: match?.[1] || value.trim(),
+      page_number: match ? Number(match[2]) : 0,
+      excerpt: '',
+    }
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+
+  const source = value as Record<string, unknown>
+  return {
+    citation_number: coerceNumber(source.citation_number) ?? index + 1,
+    document_name: source.document_name ?? source.document ?? source.file_name ?? source.source ?? source.title,
+    page_number: coerceNumber(source.page_number ?? source.page) ?? 0,
+    excerpt: source.excerpt ?? source.text ?? source.snippet ?? '',
+  }
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const sourceCitationSchema = z.object({
+  citation_number: z.number().int(),
+  document_name: z.string({ error: 'Missing document name' }).trim().min(1, 'Missing document name'),
+  page_number: z.number().int().min(0),
+  excerpt: z.string(),
+})
+
+/**
+ * Result of the Knowledge Search Agent
+ * (response_schemas/knowledge_search_agent_response.json)
+ */
+export const knowledgeSearchResultSchema = z.object({
+  answer: z.preprocess(
+    (value) => (typeof value === 'number' ? String(value) : value),
+    z.string({ error: 'Missing answer' }).trim().min(1, 'Empty answer')
+  ),
+  sources: z.preprocess(
+    (value) => {
+      const list = coerceList(value)
+      return Array.isArray(list) ? list.map(coerceSource) : list
+    },
+    z.array(sourceCitationSchema)
+  ),
+  confidence: z.preprocess(
+    (value) => {
+      if (value === undefined || value === null) return 0
+      const number = coerceNumber(value)
+      // Whole-number percentages given on a 0-100 scale; 1 stays certainty
+      // and fractions above 1 are rejected rather than guessed at
+      const isPercent = typeof number === 'number' && Number.isInteger(number) && number >= 2 && number <= 100
+      return isPercent ? number / 100 : number
+    },
+    z.number().min(0).max(1)
+  ),
+  related_questions: z.preprocess(coerceList, z.array(z.string())),
+})
+
+/**
+ * Knowledge search result received so far: the answer text as far as it
+ * goes, sources and related questions that have fully arrived and pass
+ * validation, and the confidence once its number is complete
+ */
+function readPartialKnowledgeSearchResult(snapshot: StreamingJsonSnapshot): KnowledgeSearchResult | null {
+  const { value, pendingPath, isClosed } = snapshot
+  if (!isRecord(value)) return null
+
+  // Agents answer with { status, result } or, now and then, the result alone
+  const base: JsonPath = isRecord(value.result) ? ['result'] : []
+  const result: Record<string, unknown> = isRecord(value.result) ? value.result : value
+
+  // Containers are done at their closing bracket, strings and numbers once the parser has moved past them
+  const hasArrived = (node: unknown, ...path: JsonPath) => {
+    if (typeof node === 'object' && node !== null) return isClosed(node)
+    const fullPath = [...base, ...path]
+    return !pendingPath || pendingPath.length !== fullPath.length || pendingPath.some((key, i) => key !== fullPath[i])
+  }
+
+  const sources = (Array.isArray(result.sources) ? result.sources : [])
+    .filter((source, i) => hasArrived(source, 'sources', i))
+    .map((source, i) => sourceCitationSchema.safeParse(coerceSource(source, i)))
+    .filter((parsed) => parsed.success)
+    .map((parsed) => parsed.data as SourceCitation)
+
+  const confidence = hasArrived(result.confidence, 'confidence')
+    ? knowledgeSearchResultSchema.shape.confidence.safeParse(result.confidence)
+    : null
+
+  const relatedQuestions = Array.isArray(result.related_questions) ? result.related_questions : []
+
+  return {
+    answer: typeof result.answer === 'string' ? result.answer : '',
+    sources,
+    confidence: confidence?.success ? (confidence.data as number) : 0,
+    related_questions: relatedQuestions.filter(
+      (question, i): question is string => typeof question === 'string' && hasArrived(question, 'related_questions', i)
+    ),
+  }
+}
+
+export const knowledgeSearchResponseSchema: AgentResponseSchema<KnowledgeSearchResult> = {
+  name: 'Knowledge Search Agent',
+  // zod infers every field as optional without strictNullChecks; the schema requires them
+  result: knowledgeSearchResultSchema as z.ZodType<KnowledgeSearchResult>,
+  partial: readPartialKnowledgeSearchResult,
+}
+
+// Hand-written schemas with coercion, keyed by AgentConfig.response_schema_file
+const SCHEMAS_BY_FILE: Record<string, AgentResponseSchema> = {
+  'response_schemas/knowledge_search_agent_response.json': knowledgeSearchResponseSchema,
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Schema for an agent's responses, from its response_schema_file: the
+ * hand-written one if there is one, else the generated validator; null if
+ * the file is unknown or declares no result
+ */
+export function getAgentResponseSchema(
+  agent?: Pick<AgentConfig, 'response_schema_file'> | null
+): AgentResponseSchema | null {
+  const file = agent?.response_schema_file
+  if (!file) return null
+  if (SCHEMAS_BY_FILE[file]) return SCHEMAS_BY_FILE[file]
+
+  const generated = GENERATED_RESPONSE_SCHEMAS[file]
+  return generated?.result ? { name: generated.agentName, result: generated.result } : null
+}
+
+function formatIssuePath(path: readonly PropertyKey[]): string {
+  return path
+    .map((key, i) => (typeof key === 'number' ? `[${key}]` : i === 0 ? String(key) : `.${String(key)}`))
+    .join('')
+}
+
+/**
+ * Validate and coerce an agent result; the value is the coerced result
+ */
+export function validateAgentResult<T>(
+  schema: AgentResponseSchema<T>,
+  result: unknown
+): Result<T, ResponseValidationError> {
+  const parsed = schema.result.safeParse(result ?? {})
+  if (parsed.success) return { ok: true, value: parsed.data }
+
+  const issues = parsed.error.issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+  }))
+  return { ok: false, error: new ResponseValidationError(schema.name, issues) }
+}
@@ -0,0 +1,193 @@
+/**
+ * Runtime Configuration
+ *
+ * Single source for the Lyzr API key, the API base URLs, the default
+ * agent and the name recorded as uploader of new documents. Values saved in the settings dialog (localStorage) override the
+ * build environment (VITE_LYZR_API_KEY, VITE_LYZR_AGENT_BASE_URL,
+ * VITE_LYZR_RAG_BASE_URL) and the production URLs, so the app can point at
+ * a local mock server (npm run mock:lyzr) without a rebuild. Network functions
+ * read from here on every request - changes apply immediately.
+ *
+ * @example
+ * ```typescript
+ * import { getApiKey, getAgentApiUrl } from '@/lib/runtime-config'
+ *
+ * await fetch(getAgentApiUrl('/inference/chat/'), {
+ *   headers: { 'x-api-key': getApiKey() },
+ * })
+ *
+ * saveRuntimeSettings({ agentBaseUrl: 'http://localhost:8787/v3' })
+ * ```
+ */
+
+import type { AgentBinding } from '@/lib/workspace-config'
+
+const SETTINGS_STORAGE_KEY = 'knowledge-search:settings'
+
+export const DEFAULT_AGENT_BASE_URL = 'https://agent-prod.studio.lyzr.ai/v3'
+export const DEFAULT_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
+export const DEFAULT_UPLOADER_NAME = 'Local user'
+
+export const API_KEY_MISSING_MESSAGE =
+  'Lyzr API key not configured - add it in Settings or set VITE_LYZR_API_KEY'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Values the user saved in the settings dialog. Unset fields fall back to
+ * the build environment and defaults.
+ */
+export interface RuntimeSettings {
+  apiKey?: string
+  /** Agent API: inference, asset upload, RAG ingest */
+  agentBaseUrl?: string
+  /** RAG API: parse, train, list and delete documents */
+  ragBaseUrl?: string
+  /** Agent/RAG pair new conversations start with, chosen in the dialog */
+  defaultBinding?: AgentBinding
+  /** Pair last switched to; new conversations start with it when no default is chosen */
+  lastBinding?: AgentBinding
+  /** Recorded as the uploader in the document manifest */
+  uploaderName?: string
+}
+
+/**
+ * Effective configuration - settings merged over the defaults
+ */
+export interface RuntimeConfig {
+  apiKey: string
+  /** Where the API key comes from, for the settings dialog */
+  apiKeySource: 'settings' | 'environment' | 'none'
+  agentBaseUrl: string
+  ragBaseUrl: string
+  defaultBinding: AgentBinding | null
+  lastBinding: AgentBinding | null
+  uploaderName: string
+}
+
+type RuntimeConfigListener = (config: RuntimeConfig) => void
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Trim a base URL and drop trailing slashes so paths can be appended
+ */
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '')
+}
+
+/**
+ * Validation message for a base URL override, or null if it is usable
+ */
+export function validateBaseUrl(url: string): string | null {
+  if (!url.trim()) return null
+  try {
+    const { protocol } = new URL(url.trim())
+    return protocol === 'http:' || protocol === 'https:' ? null : 'Use an http(s) URL'
+  } catch {
+    return 'Not a valid URL'
+  }
+}
+
+function readSettings(): RuntimeSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}')
+    return stored && typeof stored === 'object' ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+function resolveConfig(settings: RuntimeSettings): RuntimeConfig {
+  const environmentKey = import.meta.env.VITE_LYZR_API_KEY || ''
+  const apiKey = settings.apiKey?.trim() || environmentKey
+
+  return {
+    apiKey,
+    apiKeySource: settings.apiKey?.trim() ? 'settings' : environmentKey ? 'environment' : 'none',
+    agentBaseUrl:
+      normalizeBaseUrl(settings.agentBaseUrl || import.meta.env.VITE_LYZR_AGENT_BASE_URL || '') ||
+      DEFAULT_AGENT_BASE_URL,
+    ragBaseUrl:
+      normalizeBaseUrl(settings.ragBaseUrl || import.meta.env.VITE_LYZR_RAG_BASE_URL || '') ||
+      DEFAULT_RAG_BASE_URL,
+    defaultBinding: settings.defaultBinding ?? null,
+    lastBinding: settings.lastBinding ?? null,
+    uploaderName: settings.uploaderName?.trim() || DEFAULT_UPLOADER_NAME,
+  }
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+let settings = readSettings()
+let config = resolveConfig(settings)
+const listeners = new Set<RuntimeConfigListener>()
+
+export function getRuntimeConfig(): RuntimeConfig {
+  return config
+}
+
+export function getRuntimeSettings(): RuntimeSettings {
+  return settings
+}
+
+/**
+ * Merge changes into the saved settings; pass undefined to clear a field
+ */
+export function saveRuntimeSettings(changes: Partial<RuntimeSettings>): boolean {
+  const next: RuntimeSettings = { ...settings, ...changes }
+  Object.keys(next).forEach((key) => {
+    const value = next[key as keyof RuntimeSettings]
+    if (value === undefined || value === '') delete next[key as keyof RuntimeSettings]
+  })
+
+  settings = next
+  config = resolveConfig(next)
+  listeners.forEach((listener) => listener(config))
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(next))
+    return true
+  } catch (error) {
+    console.error('Save settings failed:', error)
+    return false
+  }
+}
+
+/**
+ * Get notified whenever the configuration changes; returns an unsubscribe function
+ */
+export function subscribeRuntimeConfig(listener: RuntimeConfigListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// =============================================================================
+// Accessors for Network Functions
+// =============================================================================
+
+export function getApiKey(): string {
+  return config.apiKey
+}
+
+/**
+ * Full URL of an Agent API endpoint, e.g. getAgentApiUrl('/inference/chat/')
+ */
+export function getAgentApiUrl(path: string): string {
+  return config.agentBaseUrl + path
+}
+
+/**
+ * Full URL of a RAG API endpoint, e.g. getRagApiUrl(`/rag/train/${ragId}/`)
+ */
+export function getRagApiUrl(path: string): string {
+  return config.ragBaseUrl + path
+}
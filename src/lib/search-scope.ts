@@ -0,0 +1,216 @@
+/**
+ * Search Scope
+ *
+ * Restrict a question to specific documents or collections. A scope is
+ * picked with the sidebar checkboxes or with @-mentions in the question
+ * (`@report.pdf`, `@"Annual reports"`), resolved to document names through
+ * the document manifest, sent to the agent with the message, and checked
+ * against the sources of the answer - citations outside the scope are flagged.
+ *
+ * @example
+ * ```typescript
+ * const { query, scope } = parseScopeMentions('@handbook.pdf vacation policy?', {
+ *   documents: ['handbook.pdf', 'pricing.docx'],
+ *   collections: ['HR'],
+ * })
+ * // query: 'vacation policy?', scope: { documents: ['handbook.pdf'], collections: [] }
+ *
+ * const names = resolveScopeDocuments(scope, manifest, documentNames)
+ * const message = buildScopedMessage(query, names)
+ * const sources = flagOutOfScopeSources(result.sources, names)
+ * ```
+ */
+
+import type { DocumentManifest, SourceCitation } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SearchScope {
+  /** Document file names */
+  documents: string[]
+  /** Collection names from the document manifest */
+  collections: string[]
+}
+
+export interface ScopeMentionResult {
+  /** The question with recognised mentions removed */
+  query: string
+  scope: SearchScope
+  /** Mentions that matched no document or collection; left in the query */
+  unmatched: string[]
+}
+
+export const EMPTY_SCOPE: SearchScope = { documents: [], collections: [] }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Comparable form of a document name: no storage prefix, no extension, lower case.
+ * Agents cite documents as "storage/report.pdf", "report.pdf" or "Report".
+ */
+export function normalizeDocumentName(name: string): string {
+  return name
+    .replace(/^storage\//, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\.[^.]+$/, '')
+}
+
+export function isScopeEmpty(scope: SearchScope): boolean {
+  return scope.documents.length === 0 && scope.collections.length === 0
+}
+
+/**
+ * Merge two scopes, keeping the first spelling of each name
+ */
+export function mergeScopes(a: SearchScope, b: SearchScope): SearchScope {
+  const unique = (names: string[]) => {
+    const seen = new Set<string>()
+    return names.filter((name) => {
+      const key = name.toLowerCase()
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+  return {
+    documents: unique([...a.documents, ...b.documents]),
+    collections: unique([...a.collections, ...b.collections]),
+  }
+}
+
+/**
+ * Document names a scope covers: its documents plus every document in its
+ * collections. Only names in `availableNames` (the knowledge base listing)
+ * are returned, so deleted documents drop out of a saved scope.
+ */
+export function resolveScopeDocuments(
+  scope: SearchScope,
+  manifest: DocumentManifest,
+  availableNames: string[]
+): string[] {
+  const collections = new Set(scope.collections)
+  const wanted = new Set(scope.documents)
+  Object.values(manifest).forEach((entry) => {
+    if (entry.collections.some((collection) => collections.has(collection))) {
+      wanted.add(entry.fileName)
+    }
+  })
+  return availableNames.filter((name) => wanted.has(name))
+}
+
+// =============================================================================
+// @-Mentions
+// =============================================================================
+
+// @name or @"name with spaces"; a mention starts the text or follows whitespace
+const MENTION_PATTERN = /(^|\s)@(?:"([^"]+)"|(\S+))/g
+
+/**
+ * Pull @-mentions of documents and collections out of a question.
+ * Documents match with or without their extension, case-insensitively;
+ * a collection wins when a name is both.
+ */
+export function parseScopeMentions(
+  text: string,
+  available: { documents: string[]; collections: string[] }
+): ScopeMentionResult {
+  const scope: SearchScope = { documents: [], collections: [] }
+  const unmatched: string[] = []
+
+  const query = text.replace(MENTION_PATTERN, (mention, lead: string, quoted?: string, bare = '') => {
+    // Trailing punctuation is not part of a bare mention ("@report.pdf,")
+    const name = quoted ?? bare.replace(/[,;:!?)]+$/, '')
+    const key = name.toLowerCase()
+    const rest = lead + (quoted ? '' : bare.slice(name.length))
+
+    const collection = available.collections.find((c) => c.toLowerCase() === key)
+    if (collection) {
+      scope.collections.push(collection)
+      return rest
+    }
+
+    const document =
+      available.documents.find((d) => d.toLowerCase() === key) ??
+      available.documents.find((d) => normalizeDocumentName(d) === normalizeDocumentName(name))
+    if (document) {
+      scope.documents.push(document)
+      return rest
+    }
+
+    unmatched.push(name)
+    return mention
+  })
+
+  return {
+    query: query.replace(/\s+([,;:!?)])/g, '$1').replace(/\s{2,}/g, ' ').trim(),
+    scope: mergeScopes(EMPTY_SCOPE, scope),
+    unmatched,
+  }
+}
+
+// Unfinished mention at the end of the input: @"partial name or @partial
+const MENTION_IN_PROGRESS = /(^|\s)@(?:"([^"]*)|([^"\s]*))$/
+
+/**
+ * The @-mention being typed at the end of the input, for suggestions.
+ * Returns null when the input does not end in a mention.
+ */
+export function getActiveMention(text: string): string | null {
+  const match = text.match(MENTION_IN_PROGRESS)
+  if (!match) return null
+  return match[2] ?? match[3]
+}
+
+/**
+ * Replace the @-mention being typed with a complete mention of `name`
+ */
+export function completeMention(text: string, name: string): string {
+  const mention = /\s/.test(name) ? `@"${name}"` : `@${name}`
+  return text.replace(MENTION_IN_PROGRESS, (_typed, lead: string) => `${lead}${mention} `)
+}
+
+// =============================================================================
+// Agent Message and Sources
+// =============================================================================
+
+/**
+ * Question text sent to the agent, with the scope spelled out so retrieval
+ * and citations stay within the selected documents
+ */
+export function buildScopedMessage(query: string, documentNames: string[]): string {
+  if (documentNames.length === 0) return query
+
+  const list = documentNames.map((name) => `- ${name}`).join('\n')
+  return (
+    `${query}\n\n` +
+    `Answer using only these documents and cite only them:\n${list}\n` +
+    'If they do not contain the answer, say so instead of using other documents.'
+  )
+}
+
+/**
+ * Whether a cited document is one of the scoped documents
+ */
+export function isDocumentInScope(documentName: string, documentNames: string[]): boolean {
+  const wanted = normalizeDocumentName(documentName)
+  return documentNames.some((name) => normalizeDocumentName(name) === wanted)
+}
+
+/**
+ * Mark sources citing documents outside the scope. An empty scope flags nothing.
+ */
+export function flagOutOfScopeSources(
+  sources: SourceCitation[],
+  documentNames: string[]
+): SourceCitation[] {
+  if (documentNames.length === 0) return sources
+  return sources.map((source) => ({
+    ...source,
+    out_of_scope: !isDocumentInScope(source.document_name, documentNames),
+  }))
+}
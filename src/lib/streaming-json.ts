@@ -0,0 +1,329 @@
+/**
+ * Streaming JSON Parser
+ *
+ * Incremental parser for agent output that arrives in chunks. Every chunk
+ * advances one state machine - nothing received earlier is parsed again -
+ * and the value so far can be read after each chunk: a string still
+ * arriving is included as far as it goes, containers are marked once their
+ * closing bracket arrives, and a member whose value has not started is left
+ * out. Prose or a ``` fence before the JSON is skipped, as is anything
+ * after it; a { or [ only starts the JSON when what follows it can (a key
+ * or closing brace, a value or closing bracket), so "Sure [see below]" is
+ * prose. Trailing commas and raw line breaks inside strings are accepted;
+ * any other syntax error stops the parser and keeps what came before -
+ * re-read the whole text with repairs then (see readPartialJson in
+ * json-parser).
+ *
+ * @example
+ * ```typescript
+ * const parser = createStreamingJsonParser()
+ * parser.push('{"answer": "Refunds take')
+ * parser.snapshot().value // { answer: 'Refunds take' }
+ *
+ * const { value, isClosed } = parser.push(' 5 days", "sources": [{"page": 2}')
+ * const [first] = (value as { sources: object[] }).sources
+ * isClosed(first) // true - the first source is complete
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JsonPath = Array<string | number>
+
+export interface StreamingJsonSnapshot<T = unknown> {
+  /** Value received so far; undefined until the JSON starts */
+  value: T | undefined
+  /** The opening bracket has arrived */
+  started: boolean
+  /** The closing bracket of the whole value has arrived */
+  complete: boolean
+  /** Why parsing stopped early; the value keeps what came before */
+  error: string | null
+  /** Path of the string or number still arriving, e.g. ['result', 'answer'] */
+  pendingPath: JsonPath | null
+  /** Whether an object or array has received its closing bracket */
+  isClosed: (node: unknown) => boolean
+}
+
+export interface StreamingJsonParser {
+  /** Feed the next chunk; returns the snapshot after it */
+  push: (chunk: string) => StreamingJsonSnapshot
+  snapshot: () => StreamingJsonSnapshot
+}
+
+interface ObjectFrame {
+  kind: 'object'
+  node: Record<string, unknown>
+  path: JsonPath
+  key: string | null
+  expect: 'key' | 'colon' | 'value' | 'comma'
+}
+
+interface ArrayFrame {
+  kind: 'array'
+  node: unknown[]
+  path: JsonPath
+  expect: 'value' | 'comma'
+}
+
+type Frame = ObjectFrame | ArrayFrame
+
+type Token =
+  | { kind: 'string'; text: string; escape: string | null; isKey: boolean }
+  | { kind: 'scalar'; text: string }
+
+// Where the value being received goes
+interface Slot {
+  container: Record<string, unknown> | unknown[]
+  key: string | number
+  path: JsonPath
+}
+
+// What may follow an opening bracket for it to start the JSON
+const VALUE_START = /["{[\]\d\-tfn]/
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null }
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+
+function readScalar(text: string): { ok: boolean; value?: unknown } {
+  if (NUMBER_PATTERN.test(text)) return { ok: true, value: Number(text) }
+  if (Object.prototype.hasOwnProperty.call(LITERALS, text)) return { ok: true, value: LITERALS[text] }
+  return { ok: false }
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+export function createStreamingJsonParser(): StreamingJsonParser {
+  let phase: 'preamble' | 'parsing' | 'done' | 'failed' = 'preamble'
+  let root: unknown
+  let error: string | null = null
+  let offset = 0
+  let token: Token | null = null
+  let slot: Slot | null = null
+  // Bracket in the preamble that starts the JSON if the next character fits
+  let candidate: '{' | '[' | null = null
+  const stack: Frame[] = []
+  const closed = new WeakSet<object>()
+
+  const fail = (message: string) => {
+    phase = 'failed'
+    error = `${message} at position ${offset}`
+    token = null
+    slot = null
+  }
+
+  const top = (): Frame | undefined => stack[stack.length - 1]
+
+  // Reserve the place of the next value in the current container
+  const claimSlot = (): Slot | null => {
+    const frame = top()
+    if (!frame || frame.expect !== 'value') return null
+
+    if (frame.kind === 'object') {
+      const key = frame.key as string
+      frame.key = null
+      frame.expect = 'comma'
+      return { container: frame.node, key, path: [...frame.path, key] }
+    }
+
+    frame.expect = 'comma'
+    const index = frame.node.length
+    return { container: frame.node, key: index, path: [...frame.path, index] }
+  }
+
+  const place = (target: Slot, value: unknown) => {
+    const container = target.container as Record<string | number, unknown>
+    container[target.key] = value
+  }
+
+  // Take back a value shown earlier that is no longer valid ("1" -> "1e")
+  const release = (target: Slot) => {
+    if (Array.isArray(target.container)) target.container.length = target.key as number
+    else delete target.container[target.key as string]
+  }
+
+  const open = (kind: 'object' | 'array') => {
+    const node = kind === 'object' ? {} : []
+    let path: JsonPath = []
+
+    if (phase === 'preamble') {
+      root = node
+      phase = 'parsing'
+    } else {
+      const target = claimSlot()
+      if (!target) return fail(`Unexpected "${kind === 'object' ? '{' : '['}"`)
+      place(target, node)
+      path = target.path
+    }
+
+    stack.push(
+      kind === 'object'
+        ? { kind, node: node as Record<string, unknown>, path, key: null, expect: 'key' }
+        : { kind, node: node as unknown[], path, expect: 'value' }
+    )
+  }
+
+  const close = (kind: 'object' | 'array') => {
+    const frame = top()
+    const canClose =
+      frame?.kind === kind &&
+      (frame.expect === 'comma' || (frame.kind === 'object' ? frame.expect === 'key' : frame.expect === 'value'))
+    if (!canClose) return fail(`Unexpected "${kind === 'object' ? '}' : ']'}"`)
+
+    stack.pop()
+    closed.add(frame.node)
+    if (stack.length === 0) phase = 'done'
+  }
+
+  const finishScalar = () => {
+    if (token?.kind !== 'scalar') return
+    const { text } = token
+    const target = slot
+    const scalar = readScalar(text)
+    token = null
+    slot = null
+    if (scalar.ok) return place(target, scalar.value)
+    release(target)
+    fail(`Invalid value "${text}"`)
+  }
+
+  const readStringChar = (ch: string) => {
+    if (token?.kind !== 'string') return
+
+    if (token.escape !== null) {
+      token.escape += ch
+      const sequence = token.escape
+      if (sequence[1] === 'u') {
+        if (sequence.length < 6) return
+        const code = parseInt(sequence.slice(2), 16)
+        if (Number.isNaN(code)) return fail('Invalid unicode escape')
+        token.text += String.fromCharCode(code)
+      } else {
+        token.text += ESCAPES[sequence[1]] ?? sequence[1]
+      }
+      token.escape = null
+      return
+    }
+
+    if (ch === '\\') {
+      token.escape = ch
+    } else if (ch === '"') {
+      const frame = top()
+      if (token.isKey && frame?.kind === 'object') {
+        frame.key = token.text
+        frame.expect = 'colon'
+      } else if (slot) {
+        place(slot, token.text)
+      }
+      token = null
+      slot = null
+    } else {
+      token.text += ch
+    }
+  }
+
+  const readChar = (ch: string) => {
+    if (phase === 'preamble') {
+      if (candidate && /\s/.test(ch)) return
+      if (candidate && (candidate === '{' ? ch === '"' || ch === '}' : VALUE_START.test(ch))) {
+        open(candidate === '{' ? 'object' : 'array')
+        candidate = null
+        return readChar(ch)
+      }
+      candidate = ch === '{' || ch === '[' ? ch : null
+      return
+    }
+
+    if (token?.kind === 'string') return readStringChar(ch)
+
+    if (token?.kind === 'scalar') {
+      if (/[\w.+-]/.test(ch)) {
+        token.text += ch
+        return
+      }
+      finishScalar()
+      if (phase !== 'parsing') return
+    }
+
+    if (/\s/.test(ch)) return
+
+    const frame = top()
+    switch (ch) {
+      case '{':
+        return open('object')
+      case '[':
+        return open('array')
+      case '}':
+        return close('object')
+      case ']':
+        return close('array')
+      case ':':
+        if (frame?.kind !== 'object' || frame.expect !== 'colon') return fail('Unexpected ":"')
+        frame.expect = 'value'
+        return
+      case ',':
+        if (frame?.expect !== 'comma') return fail('Unexpected ","')
+        frame.expect = frame.kind === 'object' ? 'key' : 'value'
+        return
+      case '"':
+        if (frame?.kind === 'object' && frame.expect === 'key') {
+          token = { kind: 'string', text: '', escape: null, isKey: true }
+          return
+        }
+        slot = claimSlot()
+        if (!slot) return fail('Unexpected string')
+        place(slot, '')
+        token = { kind: 'string', text: '', escape: null, isKey: false }
+        return
+      default:
+        if (!/[-\w]/.test(ch)) return fail(`Unexpected "${ch}"`)
+        slot = claimSlot()
+        if (!slot) return fail(`Unexpected "${ch}"`)
+        token = { kind: 'scalar', text: ch }
+    }
+  }
+
+  const snapshot = (): StreamingJsonSnapshot => {
+    let pendingPath: JsonPath | null = null
+
+    if (token?.kind === 'string' && !token.isKey && slot) {
+      place(slot, token.text)
+      pendingPath = slot.path
+    } else if (token?.kind === 'scalar' && slot) {
+      // A number may still grow ("0.8" -> "0.85"); show it while it is valid
+      const scalar = readScalar(token.text)
+      if (scalar.ok) {
+        place(slot, scalar.value)
+        pendingPath = slot.path
+      } else {
+        release(slot)
+      }
+    }
+
+    return {
+      value: root,
+      started: phase !== 'preamble',
+      complete: phase === 'done',
+      error,
+      pendingPath,
+      isClosed: (node) => typeof node === 'object' && node !== null && closed.has(node),
+    }
+  }
+
+  return {
+    push: (chunk) => {
+      for (const ch of chunk) {
+        if (phase === 'done' || phase === 'failed') break
+        readChar(ch)
+        offset++
+      }
+      return snapshot()
+    },
+    snapshot,
+  }
+}
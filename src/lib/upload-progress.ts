@@ -0,0 +1,191 @@
+/**
+ * Upload Progress
+ *
+ * Stage-based progress reporting for uploads into the knowledge base, plus a
+ * POST helper built on XMLHttpRequest (fetch cannot report request body
+ * progress). The helper resolves with a standard Response so callers keep
+ * using response.ok / response.json() as with fetch.
+ *
+ * STAGES:
+ * - queued:    waiting for a free upload slot (or for a retry)
+ * - uploading: request body being sent (bytesSent / totalBytes)
+ * - uploaded:  body fully sent, waiting for the server
+ * - parsing:   document being split into text chunks
+ * - training:  chunks being trained / ingested into the knowledge base
+ * - done:      finished successfully
+ * - failed:    stopped with an error
+ *
+ * @example
+ * ```typescript
+ * const response = await postWithProgress(url, {
+ *   headers: { 'x-api-key': key },
+ *   body: formData,
+ *   onUploadProgress: (loaded, total) => console.log(`${loaded}/${total}`),
+ * })
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type UploadStage = 'queued' | 'uploading' | 'uploaded' | 'parsing' | 'training' | 'done' | 'failed'
+
+export interface UploadProgress {
+  stage: UploadStage
+  /** Overall progress across all stages, 0-100 */
+  percent: number
+  bytesSent?: number
+  totalBytes?: number
+  /** Attempt number when the upload is retried by a queue (1-based) */
+  attempt?: number
+  maxAttempts?: number
+  error?: string
+}
+
+export type UploadProgressCallback = (progress: UploadProgress) => void
+
+// =============================================================================
+// Progress Helpers
+// =============================================================================
+
+// Share of the progress bar each stage starts at; byte progress fills
+// 'uploading' up to 'uploaded'
+const STAGE_PERCENT: Record<UploadStage, number> = {
+  queued: 0,
+  uploading: 0,
+  uploaded: 60,
+  parsing: 65,
+  training: 80,
+  done: 100,
+  failed: 100,
+}
+
+export const UPLOAD_STAGE_LABELS: Record<UploadStage, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  parsing: 'Parsing',
+  training: 'Training',
+  done: 'Done',
+  failed: 'Failed',
+}
+
+/**
+ * Build a progress snapshot for a stage. For 'uploading', pass the byte
+ * counts to fill the bar proportionally.
+ */
+export function createUploadProgress(
+  stage: UploadStage,
+  details: Omit<UploadProgress, 'stage' | 'percent'> = {}
+): UploadProgress {
+  let percent = STAGE_PERCENT[stage]
+
+  if (stage === 'uploading' && details.totalBytes) {
+    const ratio = Math.min((details.bytesSent || 0) / details.totalBytes, 1)
+    percent = Math.round(ratio * STAGE_PERCENT.uploaded)
+  }
+
+  return { stage, percent, ...details }
+}
+
+/**
+ * Human-readable stage label, e.g. "Uploading 1.2 MB of 3.4 MB"
+ */
+export function describeUploadProgress(progress: UploadProgress): string {
+  const label = UPLOAD_STAGE_LABELS[progress.stage]
+  const retrying = progress.attempt && progress.attempt > 1
+  const attempt = retrying ? ` (attempt ${progress.attempt}/${progress.maxAttempts})` : ''
+
+  if (progress.stage === 'queued' && retrying) {
+    return `Retrying${attempt}...`
+  }
+  if (progress.stage === 'uploading' && progress.totalBytes) {
+    return `${label} ${formatBytes(progress.bytesSent || 0)} of ${formatBytes(progress.totalBytes)}${attempt}`
+  }
+  if (progress.stage === 'failed' && progress.error) {
+    return `${label}: ${progress.error}`
+  }
+  return progress.stage === 'done' || progress.stage === 'failed' ? label : `${label}...${attempt}`
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// =============================================================================
+// Request Helper
+// =============================================================================
+
+interface PostWithProgressOptions {
+  headers?: Record<string, string>
+  body: XMLHttpRequestBodyInit
+  signal?: AbortSignal
+  /** Called as the request body is sent */
+  onUploadProgress?: (bytesSent: number, totalBytes: number) => void
+  /** Called once the whole body has been sent, before the response arrives */
+  onUploadComplete?: () => void
+}
+
+// Headers of a finished XHR - Retry-After, Content-Type and the rest
+function readResponseHeaders(xhr: XMLHttpRequest): Headers {
+  const headers = new Headers()
+  xhr
+    .getAllResponseHeaders()
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const separator = line.indexOf(':')
+      if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+    })
+  return headers
+}
+
+/**
+ * POST a request body and report upload progress. Rejects like fetch on
+ * network errors (TypeError) and cancellation (AbortError).
+ */
+export function postWithProgress(url: string, options: PostWithProgressOptions): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', url)
+
+    for (const [name, value] of Object.entries(options.headers || {})) {
+      xhr.setRequestHeader(name, value)
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) options.onUploadProgress?.(event.loaded, event.total)
+    }
+    xhr.upload.onload = () => options.onUploadComplete?.()
+
+    xhr.onload = () => {
+      // Status 204/205/304 responses cannot carry a body
+      const body = [204, 205, 304].includes(xhr.status) ? null : xhr.responseText
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: readResponseHeaders(xhr),
+        })
+      )
+    }
+    xhr.onerror = () => reject(new TypeError('Network request failed'))
+    xhr.ontimeout = () => reject(new TypeError('Network request timed out'))
+
+    const abort = () => xhr.abort()
+    xhr.onabort = () => reject(new DOMException('The upload was aborted', 'AbortError'))
+
+    if (options.signal) {
+      if (options.signal.aborted) {
+        reject(new DOMException('The upload was aborted', 'AbortError'))
+        return
+      }
+      options.signal.addEventListener('abort', abort, { once: true })
+      xhr.onloadend = () => options.signal?.removeEventListener('abort', abort)
+    }
+
+    xhr.send(options.body)
+  })
+}
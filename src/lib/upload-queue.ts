@@ -0,0 +1,250 @@
+/**
+ * Upload Queue
+ *
+ * Runs file uploads with limited concurrency, retries transient failures
+ * with exponential backoff, and can be paused and resumed as a whole.
+ * The queue does not know how a file is uploaded - pass a `run` task.
+ *
+ * - pause() stops new uploads from starting; uploads in flight finish
+ * - Failed items are kept so retry(id) can requeue them
+ * - onChange fires on every status or progress change of an item
+ *
+ * @example
+ * ```typescript
+ * const queue = createUploadQueue({
+ *   concurrency: 2,
+ *   run: async (file, { onProgress }) => {
+ *     const result = await uploadFiles(file, { onProgress })
+ *     return { success: result.success, error: result.error, retryable: result.retryable }
+ *   },
+ *   onChange: (item) => console.log(item.id, item.status),
+ * })
+ *
+ * queue.enqueue('doc-1', file)
+ * queue.pause()
+ * queue.resume()
+ * ```
+ */
+
+import { getRetryDelay } from '@/lib/http-client'
+import {
+  createUploadProgress,
+  type UploadProgress,
+  type UploadProgressCallback,
+} from '@/lib/upload-progress'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UploadTaskResult {
+  success: boolean
+  error?: string
+  /** Whether a failure is worth retrying (network errors, 408, 429, 5xx) */
+  retryable?: boolean
+}
+
+export type UploadQueueItemStatus = 'queued' | 'running' | 'waiting' | 'success' | 'error'
+
+export interface UploadQueueItem<R extends UploadTaskResult = UploadTaskResult> {
+  id: string
+  file: File
+  status: UploadQueueItemStatus
+  /** Attempts started so far */
+  attempts: number
+  progress: UploadProgress
+  result?: R
+  error?: string
+}
+
+export interface UploadQueueOptions<R extends UploadTaskResult> {
+  /** Upload one file; report progress through onProgress */
+  run: (file: File, context: { attempt: number; onProgress: UploadProgressCallback }) => Promise<R>
+  /** Uploads running at the same time (default 2) */
+  concurrency?: number
+  /** Attempts per item including the first (default 3) */
+  maxAttempts?: number
+  /** Delay before the first retry; doubles on each retry (default 1000) */
+  baseDelayMs?: number
+  maxDelayMs?: number
+  onChange?: (item: UploadQueueItem<R>) => void
+}
+
+export interface UploadQueue<R extends UploadTaskResult = UploadTaskResult> {
+  enqueue: (id: string, file: File) => void
+  /** Requeue a failed item from its first attempt; returns false if there is nothing to retry */
+  retry: (id: string) => boolean
+  /** Forget an item; an upload already in flight still finishes */
+  remove: (id: string) => void
+  pause: () => void
+  resume: () => void
+  isPaused: () => boolean
+  getItem: (id: string) => UploadQueueItem<R> | undefined
+  /** Items not yet finished (queued, running or waiting to retry) */
+  pendingCount: () => number
+}
+
+// =============================================================================
+// Queue
+// =============================================================================
+
+export function createUploadQueue<R extends UploadTaskResult>(
+  options: UploadQueueOptions<R>
+): UploadQueue<R> {
+  const {
+    run,
+    concurrency = 2,
+    maxAttempts = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 15000,
+    onChange,
+  } = options
+
+  // Insertion order doubles as queue order
+  const items = new Map<string, UploadQueueItem<R>>()
+  const retryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  let paused = false
+
+  const update = (id: string, changes: Partial<UploadQueueItem<R>>) => {
+    const item = items.get(id)
+    if (!item) return
+    const next = { ...item, ...changes }
+    items.set(id, next)
+    onChange?.(next)
+  }
+
+  const countRunning = () =>
+    Array.from(items.values()).filter((item) => item.status === 'running').length
+
+  const pump = () => {
+    if (paused) return
+
+    const queued = Array.from(items.values()).filter((item) => item.status === 'queued')
+    const slots = Math.max(concurrency - countRunning(), 0)
+    queued.slice(0, slots).forEach((item) => start(item.id))
+  }
+
+  const start = async (id: string) => {
+    const item = items.get(id)
+    if (!item) return
+
+    const attempt = item.attempts + 1
+    update(id, {
+      status: 'running',
+      attempts: attempt,
+      error: undefined,
+      progress: createUploadProgress('uploading', {
+        bytesSent: 0,
+        totalBytes: item.file.size,
+        attempt,
+        maxAttempts,
+      }),
+    })
+
+    let result: R
+    try {
+      result = await run(item.file, {
+        attempt,
+        onProgress: (progress) => {
+          if (items.get(id)?.status === 'running') {
+            update(id, { progress: { ...progress, attempt, maxAttempts } })
+          }
+        },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      result = { success: false, error: message, retryable: true } as R
+    }
+
+    // Removed while in flight
+    if (!items.has(id)) {
+      pump()
+      return
+    }
+
+    if (result.success) {
+      update(id, { status: 'success', result, progress: createUploadProgress('done') })
+    } else if (result.retryable && attempt < maxAttempts) {
+      const delay = getRetryDelay(attempt, baseDelayMs, maxDelayMs)
+      update(id, {
+        status: 'waiting',
+        result,
+        error: result.error,
+        progress: createUploadProgress('queued', { attempt: attempt + 1, maxAttempts }),
+      })
+      retryTimers.set(
+        id,
+        setTimeout(() => {
+          retryTimers.delete(id)
+          if (items.get(id)?.status !== 'waiting') return
+          update(id, { status: 'queued' })
+          pump()
+        }, delay)
+      )
+    } else {
+      update(id, {
+        status: 'error',
+        result,
+        error: result.error || 'Upload failed',
+        progress: createUploadProgress('failed', { error: result.error }),
+      })
+    }
+
+    pump()
+  }
+
+  return {
+    enqueue: (id, file) => {
+      const item: UploadQueueItem<R> = {
+        id,
+        file,
+        status: 'queued',
+        attempts: 0,
+        progress: createUploadProgress('queued'),
+      }
+      items.set(id, item)
+      onChange?.(item)
+      pump()
+    },
+
+    retry: (id) => {
+      const item = items.get(id)
+      if (!item || item.status !== 'error') return false
+      update(id, {
+        status: 'queued',
+        attempts: 0,
+        error: undefined,
+        result: undefined,
+        progress: createUploadProgress('queued'),
+      })
+      pump()
+      return true
+    },
+
+    remove: (id) => {
+      const timer = retryTimers.get(id)
+      if (timer) clearTimeout(timer)
+      retryTimers.delete(id)
+      items.delete(id)
+      pump()
+    },
+
+    pause: () => {
+      paused = true
+    },
+
+    resume: () => {
+      paused = false
+      pump()
+    },
+
+    isPaused: () => paused,
+
+    getItem: (id) => items.get(id),
+
+    pendingCount: () =>
+      Array.from(items.values()).filter((item) =>
+        ['queued', 'running', 'waiting'].includes(item.status)
+      ).length,
+  }
+}
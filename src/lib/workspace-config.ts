@@ -0,0 +1,167 @@
+/**
+ * Workspace Configuration
+ *
+ * The agents and knowledge bases the app can search with. The build-time
+ * list comes from workflow_state.json; agents and knowledge bases added at
+ * runtime are kept in localStorage and merged over it (same ID wins).
+ * Each agent is paired with the knowledge bases it uses, and every
+ * conversation is bound to one such agent/RAG pair.
+ *
+ * @example
+ * ```typescript
+ * const options = listWorkspaceOptions(getWorkspaceConfig())
+ * const active = findWorkspaceOption(options, conversation.binding) ?? options[0]
+ *
+ * await callAIAgentStream(query, active.agent_id, { session_id })
+ * await getDocuments(active.rag_id)
+ * ```
+ */
+
+import workflowState from '../../workflow_state.json'
+
+const RUNTIME_CONFIG_STORAGE_KEY = 'knowledge-search:workspaces'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface AgentConfig {
+  agent_id: string
+  agent_name: string
+  /** Knowledge base the agent was created with */
+  rag_id?: string
+  response_schema_file?: string
+  provider?: string
+  model?: string
+}
+
+export interface KnowledgeBaseConfig {
+  rag_id: string
+  /** Display name */
+  name: string
+  rag_name?: string
+  description?: string
+  used_by_agents: string[]
+}
+
+export interface WorkspaceConfig {
+  agents: AgentConfig[]
+  knowledge_bases: KnowledgeBaseConfig[]
+}
+
+/**
+ * Agent/RAG pair a conversation talks to
+ */
+export interface AgentBinding {
+  agent_id: string
+  rag_id: string
+}
+
+export interface WorkspaceOption extends AgentBinding {
+  /** Stable key for selects: `${agent_id}:${rag_id}` */
+  id: string
+  agent: AgentConfig
+  knowledgeBase: KnowledgeBaseConfig
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Agents and knowledge bases from workflow_state.json
+ */
+export function getBuildTimeConfig(): WorkspaceConfig {
+  return {
+    agents: (workflowState.agents ?? []).map((agent) => ({
+      agent_id: agent.agent_id,
+      agent_name: agent.agent_name,
+      rag_id: agent.rag_id,
+      response_schema_file: agent.response_schema_file,
+      provider: agent.provider,
+      model: agent.model,
+    })),
+    knowledge_bases: (workflowState.knowledge_bases ?? []).map((kb) => ({
+      rag_id: kb.rag_id,
+      name: kb.name || kb.rag_name,
+      rag_name: kb.rag_name,
+      description: kb.description,
+      used_by_agents: kb.used_by_agents ?? [],
+    })),
+  }
+}
+
+/**
+ * Agents and knowledge bases added at runtime, stored as a WorkspaceConfig
+ * under `knowledge-search:workspaces`
+ */
+export function loadRuntimeConfig(): WorkspaceConfig {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RUNTIME_CONFIG_STORAGE_KEY) || '{}')
+    return {
+      agents: Array.isArray(stored.agents) ? stored.agents : [],
+      knowledge_bases: Array.isArray(stored.knowledge_bases) ? stored.knowledge_bases : [],
+    }
+  } catch (error) {
+    console.error('Load workspace config failed:', error)
+    return { agents: [], knowledge_bases: [] }
+  }
+}
+
+/**
+ * Build-time config with the runtime additions merged over it
+ */
+export function getWorkspaceConfig(runtime = loadRuntimeConfig()): WorkspaceConfig {
+  const buildTime = getBuildTimeConfig()
+
+  const merge = <T>(base: T[], overrides: T[], key: (item: T) => string) => {
+    const merged = new Map(base.map((item) => [key(item), item]))
+    overrides.forEach((item) => merged.set(key(item), { ...merged.get(key(item)), ...item }))
+    return Array.from(merged.values())
+  }
+
+  return {
+    agents: merge(buildTime.agents, runtime.agents, (agent) => agent.agent_id),
+    knowledge_bases: merge(buildTime.knowledge_bases, runtime.knowledge_bases, (kb) => kb.rag_id),
+  }
+}
+
+// =============================================================================
+// Agent/RAG Pairs
+// =============================================================================
+
+/**
+ * Every agent paired with each knowledge base it uses - the one it was
+ * created with plus any that list it in used_by_agents. Agents without a
+ * known knowledge base are left out: the app needs one to list documents.
+ */
+export function listWorkspaceOptions(config: WorkspaceConfig): WorkspaceOption[] {
+  const options: WorkspaceOption[] = []
+
+  config.agents.forEach((agent) => {
+    const knowledgeBases = config.knowledge_bases.filter(
+      (kb) => kb.rag_id === agent.rag_id || kb.used_by_agents.includes(agent.agent_id)
+    )
+    knowledgeBases.forEach((knowledgeBase) => {
+      options.push({
+        id: `${agent.agent_id}:${knowledgeBase.rag_id}`,
+        agent_id: agent.agent_id,
+        rag_id: knowledgeBase.rag_id,
+        agent,
+        knowledgeBase,
+      })
+    })
+  })
+
+  return options
+}
+
+export function findWorkspaceOption(
+  options: WorkspaceOption[],
+  binding?: AgentBinding | null
+): WorkspaceOption | undefined {
+  if (!binding) return undefined
+  return options.find(
+    (option) => option.agent_id === binding.agent_id && option.rag_id === binding.rag_id
+  )
+}
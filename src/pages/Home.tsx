@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -7,10 +7,33 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Progress } from '@/components/ui/progress'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
 import {
   Search,
   Upload,
   FileText,
+  FileType,
+  File as FileIcon,
+  FileCode,
+  FileSpreadsheet,
+  Presentation,
   X,
   Send,
   Loader2,
@@ -22,50 +45,211 @@ import {
   Trash2,
   Database,
   BookOpen,
+  MessageSquare,
+  RefreshCw,
+  Square,
+  Pause,
+  Play,
+  Crosshair,
+  Settings,
+  Download,
 } from 'lucide-react'
-import { callAIAgent, uploadFiles, ingestFilesToRAG } from '@/utils/aiAgent'
-import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+import { callAIAgentStream, uploadFiles, ingestFilesToRAG } from '@/utils/aiAgent'
+import {
+  getFileTypeFromName,
+  uploadAndTrainDocument,
+  validateFile,
+} from '@/utils/ragKnowledgeBase'
+import {
+  findDocumentParser,
+  getAcceptedFileExtensions,
+  getSupportedFormatLabels,
+} from '@/utils/documentParsers'
+import type { AIAgentRetry, NormalizedAgentResponse } from '@/utils/aiAgent'
+import { useConversations } from '@/hooks/useConversations'
+import { useDocuments, reconcileDocuments } from '@/hooks/useDocuments'
+import {
+  useDocumentManifest,
+  filterDocumentsByManifest,
+  recordStoredUpload,
+} from '@/hooks/useDocumentManifest'
+import { useAnswerFeedback, getFeedbackId, type AnswerFeedbackInput } from '@/hooks/useAnswerFeedback'
+import { useWorkspaces } from '@/hooks/useWorkspaces'
+import { useRuntimeConfig } from '@/hooks/useRuntimeConfig'
+import { ConversationSidebar } from '@/components/ConversationSidebar'
+import { CitationViewer, findLocalFile } from '@/components/CitationViewer'
+import { DocumentDetailsPopover } from '@/components/DocumentDetailsPopover'
+import { SearchScopeBar } from '@/components/SearchScopeBar'
+import { AnswerFeedbackControls } from '@/components/AnswerFeedbackControls'
+import { WorkspaceSwitcher } from '@/components/WorkspaceSwitcher'
+import { SettingsDialog } from '@/components/SettingsDialog'
+import {
+  DuplicateDocumentDialog,
+  type DuplicateResolution,
+} from '@/components/DuplicateDocumentDialog'
+import type {
+  AnswerFeedback,
+  DocumentManifestEntry,
+  KnowledgeSearchResult,
+  Message,
+  SourceCitation,
+  UploadedDocument,
+} from '@/types'
+import {
+  describeUploadProgress,
+  type UploadProgress,
+  type UploadProgressCallback,
+} from '@/lib/upload-progress'
+import {
+  findDuplicateDocument,
+  getAvailableFileName,
+  hashFile,
+  renameFile,
+  type DuplicateMatch,
+} from '@/lib/document-hash'
+import {
+  createUploadQueue,
+  type UploadQueueItem,
+  type UploadTaskResult,
+} from '@/lib/upload-queue'
+import {
+  EMPTY_SCOPE,
+  buildScopedMessage,
+  completeMention,
+  flagOutOfScopeSources,
+  getActiveMention,
+  isScopeEmpty,
+  mergeScopes,
+  parseScopeMentions,
+  resolveScopeDocuments,
+  type SearchScope,
+} from '@/lib/search-scope'
+import type { AgentConfig, WorkspaceOption } from '@/lib/workspace-config'
+import { getAgentResponseSchema, knowledgeSearchResponseSchema } from '@/lib/response-schemas'
 import { cn } from '@/lib/utils'
 
-// Agent configuration
-const AGENT_ID = '6964a295ee6d749fb303a7b7'
-const RAG_ID = '6964a281ee189869130613de'
+const UPLOAD_CONCURRENCY = 2
 
-// TypeScript interfaces from actual_test_response
-interface SourceCitation {
-  citation_number: number
-  document_name: string
-  page_number: number
-  excerpt: string
-}
+// Sequence for upload document IDs - files picked together share a timestamp
+let uploadSequence = 0
 
-interface KnowledgeSearchResult {
-  answer: string
-  sources: SourceCitation[]
-  confidence: number
-  related_questions: string[]
-}
+// Select value for "no tag / collection filter" (Radix Select disallows '')
+const ALL_FILTER = '__all__'
+
+// Every extension the parser registry handles, for the file input
+const ACCEPTED_EXTENSIONS = getAcceptedFileExtensions()
+const SUPPORTED_FORMATS = getSupportedFormatLabels()
 
 interface KnowledgeSearchResponse extends NormalizedAgentResponse {
   result: KnowledgeSearchResult
 }
 
-interface Message {
-  id: string
-  role: 'user' | 'assistant'
-  content: string
-  timestamp: Date
-  response?: KnowledgeSearchResult
+interface RejectedFile {
+  name: string
+  reason: string
 }
 
-interface UploadedDocument {
-  id: string
-  name: string
-  size: number
-  uploadDate: Date
-  status: 'uploading' | 'success' | 'error'
-  asset_id?: string
-  error?: string
+interface ActiveSearch {
+  conversationId: string
+  /** Assistant message being retried or regenerated; unset for a new question */
+  messageId?: string
+}
+
+// Fill in missing fields so partial or error payloads render safely
+function toSearchResult(
+  result: Record<string, any> | undefined,
+  fallbackAnswer = ''
+): KnowledgeSearchResult {
+  return {
+    answer: typeof result?.answer === 'string' && result.answer ? result.answer : fallbackAnswer,
+    sources: Array.isArray(result?.sources) ? result.sources : [],
+    confidence: typeof result?.confidence === 'number' ? result.confidence : 0,
+    related_questions: Array.isArray(result?.related_questions) ? result.related_questions : [],
+  }
+}
+
+// Query behind an assistant message - older messages did not record it, so use the question before them
+function findMessageQuery(messages: Message[], message: Message): string | undefined {
+  if (message.query) return message.query
+  const index = messages.findIndex((m) => m.id === message.id)
+  return messages
+    .slice(0, index)
+    .reverse()
+    .find((m) => m.role === 'user')?.content
+}
+
+interface IngestResult extends UploadTaskResult {
+  assetId?: string
+  /** Chunks trained, when the upload path reports it */
+  chunkCount?: number
+}
+
+// Asset IDs of files already uploaded, so a retry after a failed ingest
+// does not upload the file again
+const uploadedAssetIds = new WeakMap<File, string>()
+
+/**
+ * Add a file to the knowledge base. Formats the Lyzr Parse API handles go
+ * through the asset upload + ingest flow; formats parsed in the browser
+ * (Markdown, HTML, CSV, PPTX) are chunked locally and trained directly.
+ */
+async function ingestDocument(
+  file: File,
+  ragId: string,
+  onProgress: UploadProgressCallback
+): Promise<IngestResult> {
+  if (findDocumentParser(file)?.mode === 'client') {
+    const result = await uploadAndTrainDocument(ragId, file, { onProgress })
+    return {
+      success: result.success,
+      error: result.error,
+      retryable: result.retryable === true,
+      chunkCount: result.documentCount,
+    }
+  }
+
+  // Step 1: Upload file to get asset_id
+  let assetId = uploadedAssetIds.get(file)
+  if (!assetId) {
+    const result = await uploadFiles(file, { onProgress })
+    if (!result.success || result.asset_ids.length === 0) {
+      return {
+        success: false,
+        error: result.error || 'Upload failed',
+        retryable: result.retryable === true,
+      }
+    }
+    assetId = result.asset_ids[0]
+    uploadedAssetIds.set(file, assetId)
+  }
+
+  // Step 2: Ingest into RAG knowledge base
+  const ingestResult = await ingestFilesToRAG(ragId, [assetId], { onProgress })
+  if (!ingestResult.success) {
+    return {
+      success: false,
+      error: ingestResult.error || 'Failed to add to knowledge base',
+      retryable: ingestResult.retryable === true,
+    }
+  }
+
+  return { success: true, assetId }
+}
+
+// Sidebar entry for the current state of a queued upload; the same entry
+// while only its progress changes, so the stored list is not rewritten
+function applyQueueItem(
+  doc: UploadedDocument,
+  item: UploadQueueItem<IngestResult>
+): UploadedDocument {
+  switch (item.status) {
+    case 'success':
+      return { ...doc, status: 'success', error: undefined, asset_id: item.result?.assetId }
+    case 'error':
+      return { ...doc, status: 'error', error: item.error || 'Upload failed' }
+    default:
+      return doc.status === 'uploading' ? doc : { ...doc, status: 'uploading', error: undefined }
+  }
 }
 
 // Sub-components defined outside to prevent re-creation
@@ -85,7 +269,7 @@ function WelcomeState({ onSuggestedQuery }: { onSuggestedQuery: (query: string)
         </div>
         <h2 className="text-3xl font-bold text-white mb-3">Knowledge Search</h2>
         <p className="text-gray-400 mb-8">
-          Upload PDF documents and ask questions to get accurate answers with source citations
+          Upload {SUPPORTED_FORMATS} documents and ask questions to get accurate answers with source citations
         </p>
         <div className="space-y-3">
           <p className="text-sm text-gray-500 mb-4">Try asking:</p>
@@ -113,32 +297,116 @@ function EmptyDocumentsState() {
         <Database className="w-12 h-12 text-gray-600 mx-auto mb-4" />
         <p className="text-gray-500 text-sm">No documents uploaded yet</p>
         <p className="text-gray-600 text-xs mt-2">
-          Upload PDF documents to start searching
+          Upload {SUPPORTED_FORMATS} documents to start searching
         </p>
       </div>
     </div>
   )
 }
 
-function UserMessage({ content }: { content: string }) {
+// Collection and tag chips from the document manifest
+function DocumentLabels({ entry }: { entry?: DocumentManifestEntry }) {
+  if (!entry || (entry.tags.length === 0 && entry.collections.length === 0)) return null
+
   return (
-    <div className="flex justify-end mb-4">
+    <div className="flex flex-wrap gap-1 mt-1.5">
+      {entry.collections.map((collection) => (
+        <span
+          key={`c-${collection}`}
+          className="px-1.5 py-0.5 rounded text-[10px] bg-indigo-500/15 text-indigo-300"
+        >
+          {collection}
+        </span>
+      ))}
+      {entry.tags.map((tag) => (
+        <span key={`t-${tag}`} className="px-1.5 py-0.5 rounded text-[10px] bg-gray-700 text-gray-300">
+          #{tag}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+// Per-type icon for the document list
+function DocumentIcon({ name }: { name: string }) {
+  switch (getFileTypeFromName(name)) {
+    case 'pdf':
+      return <FileText className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+    case 'docx':
+      return <FileType className="w-4 h-4 text-blue-400 mt-0.5 flex-shrink-0" />
+    case 'txt':
+    case 'md':
+      return <FileIcon className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+    case 'html':
+      return <FileCode className="w-4 h-4 text-orange-400 mt-0.5 flex-shrink-0" />
+    case 'csv':
+      return <FileSpreadsheet className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+    case 'pptx':
+      return <Presentation className="w-4 h-4 text-amber-400 mt-0.5 flex-shrink-0" />
+    default:
+      return <FileText className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+  }
+}
+
+function UserMessage({ content, scope }: { content: string; scope?: string[] }) {
+  return (
+    <div className="flex flex-col items-end mb-4">
       <div className="max-w-[80%] bg-indigo-600 text-white px-4 py-3 rounded-2xl rounded-tr-sm">
         <p className="text-sm">{content}</p>
       </div>
+      {scope && scope.length > 0 && (
+        <p
+          className="flex items-center gap-1 mt-1 text-[10px] text-gray-500"
+          title={scope.join('\n')}
+        >
+          <Crosshair className="w-3 h-3" />
+          Scoped to {scope.length === 1 ? scope[0] : `${scope.length} documents`}
+        </p>
+      )}
     </div>
   )
 }
 
 function AssistantMessage({
   response,
+  status = 'success',
+  isStreaming = false,
+  actionsDisabled = false,
+  versionIndex = 0,
+  versionCount = 1,
+  error,
   onCopy,
   onQuestionClick,
+  onRerun,
+  onVersionChange,
+  onCitationClick,
+  feedback,
+  onFeedback,
+  onRemoveFeedback,
 }: {
   response: KnowledgeSearchResult
+  status?: Message['status']
+  /** Answer is still arriving - show a cursor and hide actions */
+  isStreaming?: boolean
+  /** Another search is in flight - retry/regenerate must wait */
+  actionsDisabled?: boolean
+  versionIndex?: number
+  versionCount?: number
+  error?: string
   onCopy: (text: string) => void
   onQuestionClick: (question: string) => void
+  /** Retry a failed answer or regenerate a successful one */
+  onRerun?: () => void
+  onVersionChange?: (index: number) => void
+  onCitationClick?: (source: SourceCitation) => void
+  /** Feedback given on the answer shown */
+  feedback?: AnswerFeedback
+  onFeedback?: (input: AnswerFeedbackInput) => void
+  onRemoveFeedback?: () => void
 }) {
+  const failed = status === 'error' || status === 'cancelled'
+  const outOfScopeCount = response.sources.filter((source) => source.out_of_scope).length
+
   const [copiedAnswer, setCopiedAnswer] = useState(false)
 
   const handleCopyAnswer = () => {
@@ -159,6 +427,7 @@ function AssistantMessage({
           return (
             <span
               key={i}
+              onClick={() => onCitationClick?.(source)}
               className="inline-flex items-center justify-center w-5 h-5 text-xs bg-indigo-500/20 text-indigo-400 rounded cursor-pointer hover:bg-indigo-500/30 mx-0.5"
               title={`${source.document_name} - Page ${source.page_number}`}
             >
@@ -174,12 +443,21 @@ function AssistantMessage({
   return (
     <div className="flex justify-start mb-6">
       <div className="max-w-[85%]">
-        <Card className="bg-gray-800/50 border-gray-700">
+        <Card className={cn('bg-gray-800/50', failed ? 'border-red-500/40' : 'border-gray-700')}>
           <CardContent className="p-4">
             {/* Answer */}
             <div className="mb-4">
+              {failed && (
+                <div className="flex items-center gap-1 mb-2 text-xs text-red-400">
+                  <AlertCircle className="w-3 h-3" />
+                  {status === 'cancelled' ? 'Search stopped' : 'Search failed'}
+                </div>
+              )}
               <p className="text-gray-200 leading-relaxed">
                 {renderAnswerWithCitations(response.answer)}
+                {isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse" />
+                )}
               </p>
             </div>
 
@@ -209,20 +487,40 @@ function AssistantMessage({
             {/* Sources */}
             {response.sources.length > 0 && (
               <div className="mb-4">
-                <p className="text-xs text-gray-500 mb-2">Sources</p>
+                <p className="text-xs text-gray-500 mb-2">
+                  Sources
+                  {outOfScopeCount > 0 && (
+                    <span className="text-yellow-400">
+                      {' '}
+                      · {outOfScopeCount} outside the search scope
+                    </span>
+                  )}
+                </p>
                 <div className="space-y-2">
                   {response.sources.map((source) => (
                     <div
                       key={source.citation_number}
-                      className="flex gap-2 p-2 bg-gray-900/50 rounded border border-gray-700/50 hover:border-gray-600 transition-colors"
+                      onClick={() => onCitationClick?.(source)}
+                      className="flex gap-2 p-2 bg-gray-900/50 rounded border border-gray-700/50 hover:border-gray-600 transition-colors cursor-pointer"
                     >
                       <Badge variant="outline" className="shrink-0 h-fit">
                         {source.citation_number}
                       </Badge>
                       <div className="flex-1 min-w-0">
-                        <p className="text-xs text-gray-300 font-medium truncate">
-                          {source.document_name}
-                        </p>
+                        <div className="flex items-center gap-2">
+                          <p className="text-xs text-gray-300 font-medium truncate">
+                            {source.document_name}
+                          </p>
+                          {source.out_of_scope && (
+                            <Badge
+                              variant="outline"
+                              className="shrink-0 text-[10px] px-1.5 py-0 border-yellow-500/60 text-yellow-400"
+                              title="This document was not in the search scope"
+                            >
+                              Outside scope
+                            </Badge>
+                          )}
+                        </div>
                         <p className="text-xs text-gray-500">Page {source.page_number}</p>
                         {source.excerpt && (
                           <p className="text-xs text-gray-400 mt-1 line-clamp-2">
@@ -254,27 +552,85 @@ function AssistantMessage({
               </div>
             )}
 
-            {/* Copy button */}
-            <div className="flex justify-end">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleCopyAnswer}
-                className="h-8 text-xs text-gray-400 hover:text-white"
-              >
-                {copiedAnswer ? (
-                  <>
-                    <CheckCircle className="w-3 h-3 mr-1" />
-                    Copied
-                  </>
+            {/* Regenerate error (previous answer kept) */}
+            {error && !isStreaming && (
+              <p className="text-xs text-red-400 mb-2">{error}</p>
+            )}
+
+            {/* Actions */}
+            {!isStreaming && (
+              <div className="flex items-center justify-between">
+                {/* Version navigation */}
+                {versionCount > 1 ? (
+                  <div className="flex items-center gap-1 text-xs text-gray-500">
+                    <button
+                      onClick={() => onVersionChange?.(versionIndex - 1)}
+                      disabled={versionIndex === 0}
+                      className="hover:text-white disabled:opacity-40 disabled:hover:text-gray-500"
+                    >
+                      <ChevronLeft className="w-3 h-3" />
+                    </button>
+                    <span>
+                      {versionIndex + 1}/{versionCount}
+                    </span>
+                    <button
+                      onClick={() => onVersionChange?.(versionIndex + 1)}
+                      disabled={versionIndex === versionCount - 1}
+                      className="hover:text-white disabled:opacity-40 disabled:hover:text-gray-500"
+                    >
+                      <ChevronRight className="w-3 h-3" />
+                    </button>
+                  </div>
                 ) : (
-                  <>
-                    <Copy className="w-3 h-3 mr-1" />
-                    Copy answer
-                  </>
+                  <span />
                 )}
-              </Button>
-            </div>
+
+                <div className="flex items-center gap-1">
+                  {onRerun && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onRerun}
+                      disabled={actionsDisabled}
+                      className={cn(
+                        'h-8 text-xs hover:text-white',
+                        failed ? 'text-red-400' : 'text-gray-400'
+                      )}
+                    >
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      {failed ? 'Retry' : 'Regenerate'}
+                    </Button>
+                  )}
+                  {!failed && onFeedback && (
+                    <AnswerFeedbackControls
+                      feedback={feedback}
+                      onSubmit={onFeedback}
+                      onRemove={() => onRemoveFeedback?.()}
+                    />
+                  )}
+                  {!failed && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleCopyAnswer}
+                      className="h-8 text-xs text-gray-400 hover:text-white"
+                    >
+                      {copiedAnswer ? (
+                        <>
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Copied
+                        </>
+                      ) : (
+                        <>
+                          <Copy className="w-3 h-3 mr-1" />
+                          Copy answer
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -282,7 +638,7 @@ function AssistantMessage({
   )
 }
 
-function LoadingMessage() {
+function LoadingMessage({ retry }: { retry?: AIAgentRetry | null }) {
   return (
     <div className="flex justify-start mb-6">
       <div className="max-w-[85%]">
@@ -290,7 +646,13 @@ function LoadingMessage() {
           <CardContent className="p-4">
             <div className="flex items-center gap-2 mb-3">
               <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
-              <span className="text-sm text-gray-400">Searching knowledge base...</span>
+              {retry ? (
+                <span className="text-sm text-amber-400" title={retry.reason}>
+                  Retrying ({retry.attempt}/{retry.max_attempts})...
+                </span>
+              ) : (
+                <span className="text-sm text-gray-400">Searching knowledge base...</span>
+              )}
             </div>
             <Skeleton className="h-4 w-full mb-2 bg-gray-700" />
             <Skeleton className="h-4 w-[90%] mb-2 bg-gray-700" />
@@ -302,18 +664,176 @@ function LoadingMessage() {
   )
 }
 
+// Answer and sources received so far once they arrive, skeleton (or retry status) until then
+function PendingAnswer({
+  streamingResult,
+  retry,
+  onCopy,
+  onQuestionClick,
+}: {
+  streamingResult: KnowledgeSearchResult | null
+  retry?: AIAgentRetry | null
+  onCopy: (text: string) => void
+  onQuestionClick: (question: string) => void
+}) {
+  if (!streamingResult?.answer && !streamingResult?.sources.length) return <LoadingMessage retry={retry} />
+
+  return (
+    <AssistantMessage
+      response={streamingResult}
+      isStreaming
+      onCopy={onCopy}
+      onQuestionClick={onQuestionClick}
+    />
+  )
+}
+
 export default function Home() {
   // State
   const [sidebarOpen, setSidebarOpen] = useState(true)
-  const [documents, setDocuments] = useState<UploadedDocument[]>([])
-  const [messages, setMessages] = useState<Message[]>([])
   const [inputValue, setInputValue] = useState('')
-  const [isSearching, setIsSearching] = useState(false)
+  const [activeSearch, setActiveSearch] = useState<ActiveSearch | null>(null)
+  const [streamingResult, setStreamingResult] = useState<KnowledgeSearchResult | null>(null)
+  const [searchRetry, setSearchRetry] = useState<AIAgentRetry | null>(null)
   const [isDragging, setIsDragging] = useState(false)
-  const [sessionId] = useState(`session-${Date.now()}`)
+  const [historyOpen, setHistoryOpen] = useState(true)
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([])
+  // Trained documents waiting for delete confirmation ('all' = Clear All)
+  const [pendingDelete, setPendingDelete] = useState<UploadedDocument | 'all' | null>(null)
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{
+    fileName: string
+    match: DuplicateMatch
+    remaining: number
+  } | null>(null)
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+
+  const {
+    conversations,
+    activeConversation,
+    isRestoring,
+    updateMessages,
+    bind,
+    createNew,
+    switchTo,
+    rename,
+    remove,
+  } = useConversations()
+  const messages = activeConversation.messages
+
+  const {
+    options: workspaceOptions,
+    configuredOption: configuredWorkspace,
+    resolveBinding,
+    rememberBinding,
+  } = useWorkspaces()
+  const { config: runtimeConfig } = useRuntimeConfig()
+  const workspace = resolveBinding(activeConversation.binding)
+  // Knowledge base shown in the sidebar, read by the upload queue's callbacks
+  const ragIdRef = useRef(workspace.rag_id)
+  ragIdRef.current = workspace.rag_id
+  // Knowledge base each queued file goes to - fixed when it is queued
+  const uploadRagIdsRef = useRef(new WeakMap<File, string>())
+
+  const {
+    documents,
+    setDocuments,
+    loading: documentsLoading,
+    error: documentsError,
+    clearError: clearDocumentsError,
+    refresh,
+    removeDocuments,
+  } = useDocuments(workspace.rag_id)
+
+  const {
+    manifest,
+    tags: manifestTags,
+    collections: manifestCollections,
+    recordUpload,
+    updateEntry: updateManifestEntry,
+    removeEntries: removeManifestEntries,
+  } = useDocumentManifest(workspace.rag_id)
+
+  const {
+    entries: feedbackEntries,
+    feedbackById,
+    submitFeedback,
+    removeFeedback,
+    exportFeedback,
+  } = useAnswerFeedback()
+
+  // Stage and byte progress of queued uploads by document ID - kept out of
+  // the document list, which is persisted on every change
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({})
+
+  // Manifest fields of queued uploads - content hash, and the labels of a
+  // replaced document - recorded once they succeed
+  const uploadManifestRef = useRef<
+    Map<string, Pick<DocumentManifestEntry, 'hash'> & Partial<Pick<DocumentManifestEntry, 'tags' | 'collections'>>>
+  >(new Map())
+
+  // Uploads run through a queue: limited concurrency, retries, pause/resume
+  const [uploadQueue] = useState(() =>
+    createUploadQueue<IngestResult>({
+      concurrency: UPLOAD_CONCURRENCY,
+      run: (file, { onProgress }) =>
+        ingestDocument(file, uploadRagIdsRef.current.get(file) ?? ragIdRef.current, onProgress),
+      onChange: (item) => {
+        const ragId = uploadRagIdsRef.current.get(item.file) ?? ragIdRef.current
+        // Another knowledge base may be shown now; it reconciles its list when reopened
+        const shown = ragId === ragIdRef.current
+
+        const finished = item.status === 'success' || item.status === 'error'
+        setUploadProgress((prev) => {
+          if (!finished) return { ...prev, [item.id]: item.progress }
+          const next = { ...prev }
+          delete next[item.id]
+          return next
+        })
+        if (shown) {
+          setDocuments((prev) => {
+            const next = prev.map((doc) => (doc.id === item.id ? applyQueueItem(doc, item) : doc))
+            return next.some((doc, i) => doc !== prev[i]) ? next : prev
+          })
+        }
+        if (item.status === 'success') {
+          const upload = {
+            fileName: item.file.name,
+            size: item.file.size,
+            chunkCount: item.result?.chunkCount,
+            ...uploadManifestRef.current.get(item.id),
+          }
+          if (shown) recordUpload(upload)
+          else recordStoredUpload(ragId, upload)
+          uploadManifestRef.current.delete(item.id)
+        }
+      },
+    })
+  )
+  const [uploadsPaused, setUploadsPaused] = useState(false)
+  const [documentFilter, setDocumentFilter] = useState<{
+    tag: string | null
+    collection: string | null
+  }>({ tag: null, collection: null })
+  // Documents and collections picked in the sidebar to scope questions to
+  const [searchScope, setSearchScope] = useState<SearchScope>(EMPTY_SCOPE)
+  const isSearching = activeSearch !== null
+
+  // What a question can be scoped to: trained documents and manifest collections
+  const scopeCandidates = {
+    documents: documents.filter((doc) => doc.status === 'success').map((doc) => doc.name),
+    collections: manifestCollections,
+  }
 
   const fileInputRef = useRef<HTMLInputElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Files uploaded in this tab, by name - used to open cited pages
+  const localFilesRef = useRef<Map<string, File>>(new Map())
+  // Resolves the pending duplicate prompt
+  const duplicateResolverRef = useRef<
+    ((answer: { resolution: DuplicateResolution; applyToRemaining: boolean }) => void) | null
+  >(null)
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -323,90 +843,160 @@ export default function Home() {
   // File upload handling
   const handleFileUpload = async (files: FileList | File[]) => {
     const fileArray = Array.isArray(files) ? files : Array.from(files)
-    const pdfFiles = fileArray.filter((f) => f.type === 'application/pdf')
 
-    if (pdfFiles.length === 0) {
+    // Keep every type the RAG layer supports, and tell the user why the rest were skipped
+    const accepted: File[] = []
+    const rejected: RejectedFile[] = []
+    for (const file of fileArray) {
+      const validation = validateFile(file)
+      if (validation.isValid) {
+        accepted.push(file)
+      } else {
+        rejected.push({ name: file.name, reason: validation.error || 'Unsupported file' })
+      }
+    }
+    setRejectedFiles(rejected)
+
+    if (accepted.length === 0) {
       return
     }
 
-    // Add documents with uploading status
-    const newDocs: UploadedDocument[] = pdfFiles.map((file) => ({
-      id: `${file.name}-${Date.now()}`,
-      name: file.name,
-      size: file.size,
-      uploadDate: new Date(),
-      status: 'uploading',
-    }))
+    // Hash one file at a time - only one is held in memory - and upload
+    // identical files picked twice in this batch once
+    const batch: Array<{ file: File; hash?: string }> = []
+    for (const file of accepted) {
+      const hash = await hashFile(file).catch(() => undefined)
+      const earlier = hash ? batch.find((entry) => entry.hash === hash) : undefined
+      if (earlier) {
+        rejected.push({ name: file.name, reason: `Same content as "${earlier.file.name}" in this upload` })
+        continue
+      }
+      batch.push({ file, hash })
+    }
 
-    setDocuments((prev) => [...prev, ...newDocs])
-
-    // Upload each file
-    for (let i = 0; i < pdfFiles.length; i++) {
-      const file = pdfFiles[i]
-      const docId = newDocs[i].id
-
-      try {
-        // Step 1: Upload file to get asset_id
-        const result = await uploadFiles(file)
-
-        if (result.success && result.asset_ids.length > 0) {
-          const assetId = result.asset_ids[0]
-
-          // Step 2: Ingest into RAG knowledge base
-          const ingestResult = await ingestFilesToRAG(RAG_ID, [assetId])
-
-          console.log('Upload result:', result)
-          console.log('Ingest result:', ingestResult)
-
-          if (ingestResult.success) {
-            setDocuments((prev) =>
-              prev.map((doc) =>
-                doc.id === docId ? { ...doc, status: 'success', asset_id: assetId } : doc
-              )
-            )
-          } else {
-            setDocuments((prev) =>
-              prev.map((doc) =>
-                doc.id === docId
-                  ? {
-                      ...doc,
-                      status: 'error',
-                      error: ingestResult.error || 'Failed to add to knowledge base',
-                    }
-                  : doc
-              )
-            )
+    // Check for duplicates: by content hash against the local document list,
+    // by name against everything the knowledge base lists and the files of
+    // this batch already accepted (both would be stored as storage/<name>)
+    const listing = await refresh()
+    const known: UploadedDocument[] = [
+      ...documents,
+      ...(listing.success ? reconcileDocuments([], listing.documents || []) : []),
+    ].map((doc) => (doc.hash ? doc : { ...doc, hash: manifest[doc.name]?.hash }))
+
+    const uploads: UploadedDocument[] = []
+    const uploadFilesById = new Map<string, File>()
+    const findMatch = ({ file, hash }: { file: File; hash?: string }) =>
+      findDuplicateDocument({ name: file.name, hash }, [...known, ...uploads])
+    let appliedResolution: DuplicateResolution | null = null
+
+    for (let i = 0; i < batch.length; i++) {
+      let file = batch[i].file
+      const { hash } = batch[i]
+      const match = findMatch(batch[i])
+      // Tags and collections of a replaced document carry over to its replacement
+      let replacedLabels: Partial<Pick<DocumentManifestEntry, 'tags' | 'collections'>> | undefined
+
+      if (match) {
+        let resolution = appliedResolution
+        if (!resolution) {
+          const remaining = batch.slice(i + 1).filter((entry) => findMatch(entry)).length
+          const answer = await askDuplicateResolution(file.name, match, remaining)
+          resolution = answer.resolution
+          if (answer.applyToRemaining) appliedResolution = resolution
+        }
+
+        if (resolution === 'skip') {
+          rejected.push({ name: file.name, reason: `Duplicate of "${match.document.name}"` })
+          continue
+        }
+
+        const pending = uploads.indexOf(match.document)
+        if (resolution === 'replace' && pending !== -1) {
+          // Picked earlier in this batch and not sent yet - just drop it
+          replacedLabels = uploadManifestRef.current.get(match.document.id)
+          uploads.splice(pending, 1)
+          uploadFilesById.delete(match.document.id)
+          uploadManifestRef.current.delete(match.document.id)
+        } else if (resolution === 'replace') {
+          replacedLabels = manifest[match.document.name]
+          const result = await discardDocuments([match.document.id])
+          if (!result.success) {
+            rejected.push({
+              name: file.name,
+              reason: `Could not replace "${match.document.name}": ${result.error}`,
+            })
+            continue
           }
-        } else {
-          setDocuments((prev) =>
-            prev.map((doc) =>
-              doc.id === docId
-                ? { ...doc, status: 'error', error: result.error || 'Upload failed' }
-                : doc
-            )
-          )
         }
-      } catch (error) {
-        setDocuments((prev) =>
-          prev.map((doc) =>
-            doc.id === docId
-              ? {
-                  ...doc,
-                  status: 'error',
-                  error: error instanceof Error ? error.message : 'Upload failed',
-                }
-              : doc
-          )
-        )
+
+        // Documents are stored by name, so a kept copy needs a name of its own
+        if (resolution === 'keep-both') {
+          const takenNames = [...known, ...uploads].map((doc) => doc.name)
+          const name = getAvailableFileName(file.name, takenNames)
+          if (name !== file.name) file = renameFile(file, name)
+        }
       }
+
+      const doc: UploadedDocument = {
+        id: `${file.name}-${Date.now()}-${++uploadSequence}`,
+        name: file.name,
+        size: file.size,
+        uploadDate: new Date(),
+        status: 'uploading',
+        hash,
+      }
+      uploads.push(doc)
+      uploadFilesById.set(doc.id, file)
+      uploadManifestRef.current.set(doc.id, {
+        hash,
+        tags: replacedLabels?.tags,
+        collections: replacedLabels?.collections,
+      })
     }
+    setRejectedFiles([...rejected])
+
+    // Add documents with uploading status
+    setDocuments((prev) => [...prev, ...uploads])
+    uploads.forEach((doc) => {
+      const file = uploadFilesById.get(doc.id)!
+      localFilesRef.current.set(file.name, file)
+      uploadRagIdsRef.current.set(file, workspace.rag_id)
+      uploadQueue.enqueue(doc.id, file)
+    })
   }
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  // Show the duplicate dialog and wait for the user's choice
+  const askDuplicateResolution = (fileName: string, match: DuplicateMatch, remaining: number) =>
+    new Promise<{ resolution: DuplicateResolution; applyToRemaining: boolean }>((resolve) => {
+      duplicateResolverRef.current = resolve
+      setDuplicatePrompt({ fileName, match, remaining })
+    })
+
+  const handleResolveDuplicate = (resolution: DuplicateResolution, applyToRemaining: boolean) => {
+    const resolve = duplicateResolverRef.current
+    duplicateResolverRef.current = null
+    setDuplicatePrompt(null)
+    resolve?.({ resolution, applyToRemaining })
+  }
+
+  const handleRetryUpload = (doc: UploadedDocument) => {
+    uploadQueue.retry(doc.id)
+  }
+
+  const handleToggleUploadsPaused = () => {
+    if (uploadQueue.isPaused()) {
+      uploadQueue.resume()
+    } else {
+      uploadQueue.pause()
+    }
+    setUploadsPaused(uploadQueue.isPaused())
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
     handleFileUpload(e.dataTransfer.files)
-  }, [])
+  }
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -418,78 +1008,299 @@ export default function Home() {
     setIsDragging(false)
   }, [])
 
-  const handleDeleteDocument = (docId: string) => {
-    setDocuments((prev) => prev.filter((doc) => doc.id !== docId))
+  // Remove sidebar entries, their manifest entries and their queued uploads
+  const discardDocuments = async (ids: string[]) => {
+    ids.forEach((id) => {
+      uploadQueue.remove(id)
+      uploadManifestRef.current.delete(id)
+    })
+
+    const result = await removeDocuments(ids)
+    const names = result.removed.map((doc) => doc.name)
+    if (result.success) {
+      removeManifestEntries(names)
+      setSearchScope((prev) => ({
+        ...prev,
+        documents: prev.documents.filter((name) => !names.includes(name)),
+      }))
+    }
+    return result
+  }
+
+  // Untrained entries (failed uploads) go immediately; trained ones need confirmation
+  const handleDeleteDocument = (doc: UploadedDocument) => {
+    if (doc.status === 'success') {
+      setPendingDelete(doc)
+    } else if (doc.status === 'error') {
+      discardDocuments([doc.id])
+    }
   }
 
   const handleClearAll = () => {
-    setDocuments([])
+    if (documents.some((doc) => doc.status === 'success')) {
+      setPendingDelete('all')
+    } else {
+      discardDocuments(documents.filter((doc) => doc.status !== 'uploading').map((doc) => doc.id))
+    }
+  }
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return
+
+    const targets =
+      pendingDelete === 'all'
+        ? documents.filter((doc) => doc.status !== 'uploading')
+        : [pendingDelete]
+
+    targets.forEach((doc) => localFilesRef.current.delete(doc.name))
+    discardDocuments(targets.map((doc) => doc.id))
+    setPendingDelete(null)
   }
 
   // Search handling
-  const handleSearch = async (query: string) => {
-    if (!query.trim() || isSearching) return
+
+  // Run one agent call and describe its outcome as assistant message fields
+  // An empty scope searches the whole knowledge base
+  const requestAnswer = async (
+    query: string,
+    sessionId: string,
+    agent: AgentConfig,
+    scope: string[] = []
+  ): Promise<{ status: NonNullable<Message['status']>; response: KnowledgeSearchResult }> => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    try {
+      // Stream the agent's answer - it will use the knowledge base automatically
+      const result = await callAIAgentStream(buildScopedMessage(query, scope), agent.agent_id, {
+        session_id: sessionId,
+        // Runtime-added agents without a stored schema answer in the knowledge search format
+        responseSchema: getAgentResponseSchema(agent) ?? knowledgeSearchResponseSchema,
+        document_scope: scope,
+        signal: controller.signal,
+        onRetry: setSearchRetry,
+        onChunk: ({ answer, result }) =>
+          setStreamingResult(toSearchResult((result as KnowledgeSearchResult) ?? { answer })),
+      })
+
+      if (result.cancelled) {
+        return { status: 'cancelled', response: toSearchResult(undefined, 'Search stopped.') }
+      }
+
+      if (result.success && result.response.status === 'success') {
+        const response = toSearchResult(result.response.result, 'No answer available')
+        return {
+          status: 'success',
+          response: { ...response, sources: flagOutOfScopeSources(response.sources, scope) },
+        }
+      }
+
+      return {
+        status: 'error',
+        response: toSearchResult(
+          result.response.result,
+          result.response.message || 'Failed to get response'
+        ),
+      }
+    } catch (error) {
+      return {
+        status: 'error',
+        response: toSearchResult(
+          undefined,
+          'An error occurred while searching. Please try again.'
+        ),
+      }
+    } finally {
+      abortControllerRef.current = null
+      setStreamingResult(null)
+      setSearchRetry(null)
+    }
+  }
+
+  const handleSearch = async (input: string) => {
+    if (!input.trim() || isSearching || isRestoring) return
+
+    // @-mentions scope this question on top of the sidebar scope
+    const mentions = parseScopeMentions(input, scopeCandidates)
+    const query = mentions.query || input.trim()
+    const combinedScope = mergeScopes(searchScope, mentions.scope)
+    const scope = resolveScopeDocuments(combinedScope, manifest, scopeCandidates.documents)
+    if (!isScopeEmpty(combinedScope) && scope.length === 0) return
 
     const userMessage: Message = {
       id: `msg-${Date.now()}`,
       role: 'user',
-      content: query,
+      content: input,
       timestamp: new Date(),
+      scope: scope.length > 0 ? scope : undefined,
     }
 
-    setMessages((prev) => [...prev, userMessage])
+    // Responses go to the conversation that asked, even if the user switches away
+    const conversationId = activeConversation.id
+    const sessionId = activeConversation.session_id
+    const agent = workspace.agent
+
+    // The first question fixes the conversation's agent/RAG pair
+    if (!activeConversation.binding) {
+      bind(conversationId, { agent_id: workspace.agent_id, rag_id: workspace.rag_id })
+    }
+
+    updateMessages(conversationId, (prev) => [...prev, userMessage])
     setInputValue('')
-    setIsSearching(true)
+    setActiveSearch({ conversationId })
 
     setTimeout(scrollToBottom, 100)
 
-    try {
-      // Call agent - it will use the knowledge base automatically
-      const result = await callAIAgent(query, AGENT_ID, {
-        session_id: sessionId,
-      })
+    const { status, response } = await requestAnswer(
+      query,
+      sessionId,
+      agent,
+      userMessage.scope
+    )
 
-      if (result.success && result.response.status === 'success') {
-        const assistantMessage: Message = {
-          id: `msg-${Date.now()}-assistant`,
-          role: 'assistant',
-          content: result.response.result.answer || 'No answer available',
-          timestamp: new Date(),
-          response: result.response.result as KnowledgeSearchResult,
+    const assistantMessage: Message = {
+      id: `msg-${Date.now()}-assistant`,
+      role: 'assistant',
+      content: response.answer,
+      timestamp: new Date(),
+      response,
+      status,
+      query,
+      scope: userMessage.scope,
+      versions: status === 'success' ? [response] : undefined,
+      versionIndex: status === 'success' ? 0 : undefined,
+    }
+    updateMessages(conversationId, (prev) => [...prev, assistantMessage])
+
+    setActiveSearch(null)
+    setTimeout(scrollToBottom, 100)
+  }
+
+  // Retry a failed answer, or regenerate a successful one as a new version
+  const handleRerun = async (message: Message) => {
+    if (isSearching) return
+
+    const query = findMessageQuery(messages, message)
+    if (!query) return
+
+    const conversationId = activeConversation.id
+    setActiveSearch({ conversationId, messageId: message.id })
+
+    const { status, response } = await requestAnswer(
+      query,
+      activeConversation.session_id,
+      workspace.agent,
+      message.scope
+    )
+
+    updateMessages(conversationId, (prev) =>
+      prev.map((m) => {
+        if (m.id !== message.id) return m
+
+        const hadAnswer = m.response && m.status !== 'error' && m.status !== 'cancelled'
+        const previousVersions = m.versions ?? (hadAnswer ? [m.response] : [])
+
+        if (status !== 'success') {
+          // Keep the earlier answer when regenerating fails
+          if (previousVersions.length > 0) {
+            return {
+              ...m,
+              error: status === 'cancelled' ? undefined : `Regenerate failed: ${response.answer}`,
+            }
+          }
+          return { ...m, content: response.answer, timestamp: new Date(), response, status, query }
         }
-        setMessages((prev) => [...prev, assistantMessage])
-      } else {
-        // Handle error response
-        const errorMessage: Message = {
-          id: `msg-${Date.now()}-error`,
-          role: 'assistant',
-          content:
-            result.response.result?.answer ||
-            result.response.message ||
-            'Failed to get response',
+
+        const versions = [...previousVersions, response]
+        return {
+          ...m,
+          content: response.answer,
           timestamp: new Date(),
-          response: result.response.result as KnowledgeSearchResult,
+          response,
+          status,
+          query,
+          versions,
+          versionIndex: versions.length - 1,
+          error: undefined,
         }
-        setMessages((prev) => [...prev, errorMessage])
-      }
-    } catch (error) {
-      const errorMessage: Message = {
-        id: `msg-${Date.now()}-error`,
-        role: 'assistant',
-        content: 'An error occurred while searching. Please try again.',
-        timestamp: new Date(),
-        response: {
-          answer: 'An error occurred while searching. Please try again.',
-          sources: [],
-          confidence: 0,
-          related_questions: [],
-        },
-      }
-      setMessages((prev) => [...prev, errorMessage])
-    } finally {
-      setIsSearching(false)
-      setTimeout(scrollToBottom, 100)
+      })
+    )
+
+    setActiveSearch(null)
+  }
+
+  // Agent / knowledge base switching
+
+  // A conversation keeps the pair it started with - switching from one
+  // with messages opens a new conversation
+  const handleSwitchWorkspace = (option: WorkspaceOption) => {
+    const binding = { agent_id: option.agent_id, rag_id: option.rag_id }
+    rememberBinding(binding)
+    if (messages.length > 0) {
+      createNew(binding)
+    } else {
+      bind(activeConversation.id, binding)
     }
+    setSearchScope(EMPTY_SCOPE)
+    setDocumentFilter({ tag: null, collection: null })
+    setRejectedFiles([])
+  }
+
+  // Search scope handling
+
+  const handleToggleScopeDocument = (name: string, checked: boolean) => {
+    setSearchScope((prev) => ({
+      ...prev,
+      documents: checked
+        ? [...prev.documents.filter((n) => n !== name), name]
+        : prev.documents.filter((n) => n !== name),
+    }))
+  }
+
+  const handleScopeCollection = (collection: string) => {
+    setSearchScope((prev) => mergeScopes(prev, { documents: [], collections: [collection] }))
+  }
+
+  const handleRemoveFromScope = (kind: keyof SearchScope, name: string) => {
+    setSearchScope((prev) => ({ ...prev, [kind]: prev[kind].filter((n) => n !== name) }))
+  }
+
+  // Complete the @-mention being typed
+  const handlePickMention = (name: string) => {
+    setInputValue((prev) => completeMention(prev, name))
+  }
+
+  const handleVersionChange = (messageId: string, versionIndex: number) => {
+    updateMessages(activeConversation.id, (prev) =>
+      prev.map((m) => {
+        const version = m.versions?.[versionIndex]
+        if (m.id !== messageId || !version) return m
+        return { ...m, content: version.answer, response: version, versionIndex }
+      })
+    )
+  }
+
+  // Record feedback on the answer version shown, with what produced it
+  const handleFeedback = (message: Message, input: AnswerFeedbackInput) => {
+    if (!message.response) return
+
+    submitFeedback({
+      message_id: message.id,
+      version_index: message.versionIndex ?? 0,
+      conversation_id: activeConversation.id,
+      session_id: activeConversation.session_id,
+      // The agent the conversation is bound to answered, whatever is selected now
+      agent_id: activeConversation.binding?.agent_id,
+      query: findMessageQuery(messages, message) ?? '',
+      answer: message.response.answer,
+      confidence: message.response.confidence,
+      sources: message.response.sources,
+      ...input,
+    })
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
   }
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -520,9 +1331,47 @@ export default function Home() {
   }
 
   const successfulDocs = documents.filter((d) => d.status === 'success').length
+  const visibleDocuments = filterDocumentsByManifest(documents, manifest, documentFilter)
+  const isFiltered = documentFilter.tag !== null || documentFilter.collection !== null
+  const isUploading = documents.some((doc) => doc.status === 'uploading')
+
+  // Uploads are tied to the knowledge base they started in
+  const switchDisabledReason = isUploading
+    ? 'Wait for uploads to finish before switching'
+    : isSearching
+      ? 'Wait for the answer before switching'
+      : undefined
+
+  const mentionedScope = parseScopeMentions(inputValue, scopeCandidates).scope
+  const activeScope = mergeScopes(searchScope, mentionedScope)
+  const scopedDocumentCount = resolveScopeDocuments(
+    activeScope,
+    manifest,
+    scopeCandidates.documents
+  ).length
+  const scopeUnresolvable = !isScopeEmpty(activeScope) && scopedDocumentCount === 0
 
   return (
     <div className="h-screen flex bg-[#1a1a2e] overflow-hidden">
+      {/* Conversation Sidebar */}
+      <div
+        className={cn(
+          'flex-shrink-0 border-r border-gray-800 bg-[#16162a] transition-all duration-300',
+          historyOpen ? 'w-[260px]' : 'w-0'
+        )}
+      >
+        {historyOpen && (
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={activeConversation.id}
+            onSelect={switchTo}
+            onCreate={() => createNew()}
+            onRename={rename}
+            onDelete={remove}
+          />
+        )}
+      </div>
+
       {/* Document Sidebar */}
       <div
         className={cn(
@@ -536,11 +1385,26 @@ export default function Home() {
             <div className="p-4 border-b border-gray-800">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-sm font-semibold text-white">Documents</h2>
-                <Badge variant="outline" className="text-xs">
-                  {successfulDocs}
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {documentsLoading && (
+                    <Loader2 className="w-3 h-3 animate-spin text-gray-500" />
+                  )}
+                  <Badge variant="outline" className="text-xs">
+                    {successfulDocs}
+                  </Badge>
+                </div>
               </div>
 
+              {documentsError && (
+                <div className="flex items-start gap-2 mb-3 p-2 rounded bg-red-500/10 text-xs text-red-400">
+                  <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  <span className="flex-1">{documentsError}</span>
+                  <button onClick={clearDocumentsError} className="hover:text-white">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+
               {/* Upload Zone */}
               <div
                 onDrop={handleDrop}
@@ -555,39 +1419,172 @@ export default function Home() {
                 onClick={() => fileInputRef.current?.click()}
               >
                 <Upload className="w-6 h-6 text-gray-500 mx-auto mb-2" />
-                <p className="text-xs text-gray-400">Drop PDFs here or click</p>
+                <p className="text-xs text-gray-400">Drop {SUPPORTED_FORMATS} files here or click</p>
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf"
+                  accept={ACCEPTED_EXTENSIONS}
                   multiple
                   onChange={(e) => e.target.files && handleFileUpload(e.target.files)}
                   className="hidden"
                 />
               </div>
+
+              {/* Upload Queue Controls */}
+              {isUploading && (
+                <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    {uploadsPaused
+                      ? 'Uploads paused'
+                      : `Uploading ${documents.filter((doc) => doc.status === 'uploading').length} file(s)`}
+                  </span>
+                  <button
+                    onClick={handleToggleUploadsPaused}
+                    className="flex items-center gap-1 text-gray-400 hover:text-white transition-colors"
+                  >
+                    {uploadsPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                    {uploadsPaused ? 'Resume' : 'Pause'}
+                  </button>
+                </div>
+              )}
+
+              {/* Rejected Files */}
+              {rejectedFiles.length > 0 && (
+                <div className="mt-3 p-2 rounded bg-red-500/10 border border-red-500/20">
+                  <div className="flex items-center justify-between mb-1">
+                    <p className="text-xs font-medium text-red-400">
+                      {rejectedFiles.length} file{rejectedFiles.length > 1 ? 's' : ''} skipped
+                    </p>
+                    <button
+                      onClick={() => setRejectedFiles([])}
+                      className="text-red-400 hover:text-white"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <ul className="space-y-1">
+                    {rejectedFiles.map((file, i) => (
+                      <li key={i} className="text-xs">
+                        <span className="text-gray-300 break-all">{file.name}</span>
+                        <span className="block text-gray-500">{file.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
+            {/* Tag / Collection Filter */}
+            {(manifestTags.length > 0 || manifestCollections.length > 0) && (
+              <div className="px-3 pt-3 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={documentFilter.tag ?? ALL_FILTER}
+                    onValueChange={(value) =>
+                      setDocumentFilter((prev) => ({
+                        ...prev,
+                        tag: value === ALL_FILTER ? null : value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-gray-800 border-gray-700 text-gray-300">
+                      <SelectValue placeholder="Tag" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_FILTER}>All tags</SelectItem>
+                      {manifestTags.map((tag) => (
+                        <SelectItem key={tag} value={tag}>
+                          {tag}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={documentFilter.collection ?? ALL_FILTER}
+                    onValueChange={(value) =>
+                      setDocumentFilter((prev) => ({
+                        ...prev,
+                        collection: value === ALL_FILTER ? null : value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-gray-800 border-gray-700 text-gray-300">
+                      <SelectValue placeholder="Collection" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_FILTER}>All collections</SelectItem>
+                      {manifestCollections.map((collection) => (
+                        <SelectItem key={collection} value={collection}>
+                          {collection}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isFiltered && (
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      {visibleDocuments.length} of {documents.length} documents
+                    </span>
+                    <div className="flex items-center gap-3">
+                      {documentFilter.collection && (
+                        <button
+                          onClick={() => handleScopeCollection(documentFilter.collection!)}
+                          className="hover:text-indigo-400 transition-colors"
+                          title="Scope questions to this collection"
+                        >
+                          Search collection
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setDocumentFilter({ tag: null, collection: null })}
+                        className="hover:text-white transition-colors"
+                      >
+                        Clear filter
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Document List */}
             <ScrollArea className="flex-1">
               <div className="p-3 space-y-2">
                 {documents.length === 0 ? (
                   <EmptyDocumentsState />
+                ) : visibleDocuments.length === 0 ? (
+                  <p className="text-xs text-gray-500 text-center py-6">
+                    No documents match this filter
+                  </p>
                 ) : (
-                  documents.map((doc) => (
+                  visibleDocuments.map((doc) => (
                     <div
                       key={doc.id}
                       className="p-3 bg-gray-800/50 rounded-lg border border-gray-700 hover:border-gray-600 transition-colors"
                     >
                       <div className="flex items-start gap-2">
-                        <FileText className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                        {doc.status === 'success' && (
+                          <Checkbox
+                            checked={searchScope.documents.includes(doc.name)}
+                            onCheckedChange={(checked) =>
+                              handleToggleScopeDocument(doc.name, checked === true)
+                            }
+                            className="mt-0.5"
+                            title="Search only selected documents"
+                          />
+                        )}
+                        <DocumentIcon name={doc.name} />
                         <div className="flex-1 min-w-0">
                           <p className="text-xs text-gray-300 font-medium truncate">
                             {doc.name}
                           </p>
                           <div className="flex items-center gap-2 mt-1">
-                            <span className="text-xs text-gray-500">
-                              {formatFileSize(doc.size)}
-                            </span>
+                            {doc.size > 0 && (
+                              <span className="text-xs text-gray-500">
+                                {formatFileSize(doc.size)}
+                              </span>
+                            )}
                             {doc.status === 'uploading' && (
                               <Loader2 className="w-3 h-3 animate-spin text-indigo-400" />
                             )}
@@ -598,16 +1595,43 @@ export default function Home() {
                               <AlertCircle className="w-3 h-3 text-red-500" />
                             )}
                           </div>
+                          <DocumentLabels entry={manifest[doc.name]} />
+                          {doc.status === 'uploading' && uploadProgress[doc.id] && (
+                            <div className="mt-2">
+                              <Progress value={uploadProgress[doc.id].percent} className="h-1" />
+                              <p className="text-[10px] text-gray-500 mt-1">
+                                {describeUploadProgress(uploadProgress[doc.id])}
+                              </p>
+                            </div>
+                          )}
                           {doc.error && (
                             <p className="text-xs text-red-400 mt-1">{doc.error}</p>
                           )}
                         </div>
-                        <button
-                          onClick={() => handleDeleteDocument(doc.id)}
-                          className="text-gray-500 hover:text-red-400 transition-colors"
-                        >
-                          <X className="w-3 h-3" />
-                        </button>
+                        {doc.status === 'success' && (
+                          <DocumentDetailsPopover
+                            fileName={doc.name}
+                            entry={manifest[doc.name]}
+                            onSave={(changes) => updateManifestEntry(doc.name, changes)}
+                          />
+                        )}
+                        {doc.status === 'error' && uploadQueue.getItem(doc.id) && (
+                          <button
+                            onClick={() => handleRetryUpload(doc)}
+                            className="text-gray-500 hover:text-indigo-400 transition-colors"
+                            title="Retry upload"
+                          >
+                            <RefreshCw className="w-3 h-3" />
+                          </button>
+                        )}
+                        {doc.status !== 'uploading' && (
+                          <button
+                            onClick={() => handleDeleteDocument(doc)}
+                            className="text-gray-500 hover:text-red-400 transition-colors"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))
@@ -634,7 +1658,7 @@ export default function Home() {
       </div>
 
       {/* Main Content Area */}
-      <div className="flex-1 flex flex-col">
+      <div className="flex-1 flex flex-col min-w-0">
         {/* Header */}
         <div className="h-16 border-b border-gray-800 flex items-center px-6 bg-[#16162a]">
           <button
@@ -647,6 +1671,16 @@ export default function Home() {
               <ChevronRight className="w-5 h-5" />
             )}
           </button>
+          <button
+            onClick={() => setHistoryOpen(!historyOpen)}
+            className={cn(
+              'mr-4 transition-colors',
+              historyOpen ? 'text-indigo-400 hover:text-indigo-300' : 'text-gray-400 hover:text-white'
+            )}
+            title="Conversations"
+          >
+            <MessageSquare className="w-5 h-5" />
+          </button>
           <div className="flex items-center gap-3">
             <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-indigo-500/10">
               <Search className="w-4 h-4 text-indigo-500" />
@@ -654,10 +1688,42 @@ export default function Home() {
             <div>
               <h1 className="text-lg font-semibold text-white">Knowledge Search</h1>
               <p className="text-xs text-gray-500">
-                Ask questions about your documents
+                Ask questions about {workspace.knowledgeBase.name}
               </p>
             </div>
           </div>
+          <div className="ml-auto flex items-center gap-3">
+            <WorkspaceSwitcher
+              options={workspaceOptions}
+              activeId={workspace.id}
+              onSelect={handleSwitchWorkspace}
+              disabledReason={switchDisabledReason}
+            />
+            <button
+              onClick={exportFeedback}
+              disabled={feedbackEntries.length === 0}
+              className="text-gray-400 hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-gray-400"
+              title={
+                feedbackEntries.length > 0
+                  ? `Export answer feedback (${feedbackEntries.length}) as JSONL`
+                  : 'No answer feedback to export yet'
+              }
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              className="relative text-gray-400 hover:text-white transition-colors"
+              title={
+                runtimeConfig.apiKeySource === 'none' ? 'Settings - API key missing' : 'Settings'
+              }
+            >
+              <Settings className="w-5 h-5" />
+              {runtimeConfig.apiKeySource === 'none' && (
+                <span className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-red-500" />
+              )}
+            </button>
+          </div>
         </div>
 
         {/* Chat Area */}
@@ -670,17 +1736,43 @@ export default function Home() {
                 {messages.map((msg) => (
                   <div key={msg.id}>
                     {msg.role === 'user' ? (
-                      <UserMessage content={msg.content} />
+                      <UserMessage content={msg.content} scope={msg.scope} />
+                    ) : activeSearch?.messageId === msg.id ? (
+                      <PendingAnswer
+                        streamingResult={streamingResult}
+                        retry={searchRetry}
+                        onCopy={handleCopyText}
+                        onQuestionClick={handleRelatedQuestion}
+                      />
                     ) : msg.response ? (
                       <AssistantMessage
                         response={msg.response}
+                        status={msg.status}
+                        actionsDisabled={isSearching}
+                        versionIndex={msg.versionIndex}
+                        versionCount={msg.versions?.length}
+                        error={msg.error}
                         onCopy={handleCopyText}
                         onQuestionClick={handleRelatedQuestion}
+                        onRerun={() => handleRerun(msg)}
+                        onVersionChange={(index) => handleVersionChange(msg.id, index)}
+                        onCitationClick={setOpenCitation}
+                        feedback={feedbackById.get(getFeedbackId(msg.id, msg.versionIndex))}
+                        onFeedback={(input) => handleFeedback(msg, input)}
+                        onRemoveFeedback={() => removeFeedback(getFeedbackId(msg.id, msg.versionIndex))}
                       />
                     ) : null}
                   </div>
                 ))}
-                {isSearching && <LoadingMessage />}
+                {activeSearch?.conversationId === activeConversation.id &&
+                  !activeSearch.messageId && (
+                    <PendingAnswer
+                      streamingResult={streamingResult}
+                      retry={searchRetry}
+                      onCopy={handleCopyText}
+                      onQuestionClick={handleRelatedQuestion}
+                    />
+                  )}
                 <div ref={messagesEndRef} />
               </div>
             )}
@@ -690,27 +1782,45 @@ export default function Home() {
         {/* Search Input Bar */}
         <div className="border-t border-gray-800 bg-[#16162a] p-4">
           <div className="max-w-4xl mx-auto">
+            <SearchScopeBar
+              scope={searchScope}
+              mentioned={mentionedScope}
+              documentCount={scopedDocumentCount}
+              activeMention={getActiveMention(inputValue)}
+              available={scopeCandidates}
+              onRemove={handleRemoveFromScope}
+              onClear={() => setSearchScope(EMPTY_SCOPE)}
+              onPickMention={handlePickMention}
+            />
             <form onSubmit={handleSubmit} className="relative">
               <Input
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
-                placeholder="Ask anything about your documents..."
+                placeholder="Ask anything about your documents... (@ to scope to a document)"
                 maxLength={500}
                 disabled={isSearching}
                 className="pr-12 bg-gray-800 border-gray-700 text-white placeholder:text-gray-500 h-12 rounded-xl"
               />
-              <Button
-                type="submit"
-                size="sm"
-                disabled={!inputValue.trim() || isSearching}
-                className="absolute right-2 top-2 h-8 w-8 p-0 bg-indigo-600 hover:bg-indigo-700"
-              >
-                {isSearching ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
+              {isSearching ? (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={handleStop}
+                  title="Stop"
+                  className="absolute right-2 top-2 h-8 w-8 p-0 bg-gray-600 hover:bg-gray-500"
+                >
+                  <Square className="w-3 h-3 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={!inputValue.trim() || scopeUnresolvable}
+                  className="absolute right-2 top-2 h-8 w-8 p-0 bg-indigo-600 hover:bg-indigo-700"
+                >
                   <Send className="w-4 h-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </form>
             <p className="text-xs text-gray-600 mt-2 text-center">
               {inputValue.length}/500 characters
@@ -718,6 +1828,60 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      <SettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        workspaceOptions={workspaceOptions}
+        defaultWorkspaceId={configuredWorkspace?.id}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete === 'all' ? 'Clear all documents?' : 'Delete document?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete === 'all'
+                ? `All ${successfulDocs} documents will be removed from the knowledge base.`
+                : `"${pendingDelete?.name}" will be removed from the knowledge base.`}{' '}
+              Answers will no longer cite them. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Duplicate Upload Prompt */}
+      <DuplicateDocumentDialog
+        pending={duplicatePrompt}
+        remaining={duplicatePrompt?.remaining ?? 0}
+        onResolve={handleResolveDuplicate}
+      />
+
+      {/* Citation Viewer */}
+      {openCitation && (
+        <div className="flex-shrink-0 w-[480px] border-l border-gray-800">
+          <CitationViewer
+            citation={openCitation}
+            file={findLocalFile(localFilesRef.current, openCitation.document_name)}
+            onClose={() => setOpenCitation(null)}
+          />
+        </div>
+      )}
     </div>
   )
 }
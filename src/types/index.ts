@@ -1,5 +1,7 @@
 // Common TypeScript types for your application
 
+import type { KnowledgeSearchAgentResult } from '@/generated/agent-responses'
+
 export interface User {
   id: string
   name: string
@@ -258,4 +260,118 @@ export function isCriticalEvent(event: SSEEventBase & { type?: SSEEventType }):
     'validation_error',
   ]
   return criticalTypes.includes(event.type as SSEEventType)
-}
\ No newline at end of file
+}
+// =============================================================================
+// Knowledge Search Types
+// =============================================================================
+
+/**
+ * Source citation returned by the Knowledge Search Agent
+ */
+export interface SourceCitation {
+  citation_number: number
+  document_name: string
+  page_number: number
+  excerpt: string
+  /** Set when the question was scoped and this document is outside the scope */
+  out_of_scope?: boolean
+}
+
+/**
+ * Result payload of the Knowledge Search Agent - the generated type from
+ * response_schemas/, with sources narrowed to the citation shape the UI renders
+ */
+export interface KnowledgeSearchResult extends KnowledgeSearchAgentResult {
+  sources: SourceCitation[]
+}
+
+/**
+ * A single chat message in a knowledge search conversation
+ */
+export interface Message {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: Date
+  response?: KnowledgeSearchResult
+  /** Outcome of an assistant message (missing on older messages means success) */
+  status?: 'success' | 'error' | 'cancelled'
+  /** Query that produced this assistant message, used by retry and regenerate */
+  query?: string
+  /** Documents the question was scoped to; unset means the whole knowledge base */
+  scope?: string[]
+  /** Every answer generated for this message, oldest first */
+  versions?: KnowledgeSearchResult[]
+  /** Index into versions of the answer being shown */
+  versionIndex?: number
+  /** Error from the last failed regenerate, shown under the kept answer */
+  error?: string
+}
+
+/**
+ * Rating of an answer and, for a thumbs down, what was wrong with it
+ */
+export type FeedbackRating = 'up' | 'down'
+
+export type FeedbackReason = 'wrong_citation' | 'hallucination' | 'incomplete' | 'outdated'
+
+/**
+ * Feedback on one answer, recorded with what produced it so the log can be
+ * exported as an evaluation set
+ */
+export interface AnswerFeedback {
+  /** One entry per answer version - see getFeedbackId */
+  id: string
+  message_id: string
+  /** Index into the message's versions of the answer rated */
+  version_index: number
+  conversation_id: string
+  session_id: string
+  agent_id?: string
+  query: string
+  answer: string
+  confidence: number
+  sources: SourceCitation[]
+  rating: FeedbackRating
+  /** Empty for a thumbs up */
+  reasons: FeedbackReason[]
+  comment: string
+  timestamp: Date
+}
+
+/**
+ * A document uploaded into the knowledge base from the UI
+ */
+export interface UploadedDocument {
+  id: string
+  name: string
+  size: number
+  uploadDate: Date
+  status: 'uploading' | 'success' | 'error'
+  /** SHA-256 of the file contents, for duplicate detection */
+  hash?: string
+  asset_id?: string
+  error?: string
+}
+
+/**
+ * Locally recorded metadata for a document in a knowledge base.
+ * The knowledge base itself only reports file names.
+ */
+export interface DocumentManifestEntry {
+  fileName: string
+  size: number
+  /** SHA-256 of the file contents */
+  hash?: string
+  uploadDate: Date
+  uploader: string
+  /** Chunks trained into the knowledge base, when the upload path reports it */
+  chunkCount?: number
+  tags: string[]
+  collections: string[]
+}
+
+/**
+ * Manifest entries keyed by file name
+ */
+export type DocumentManifest = Record<string, DocumentManifestEntry>
@@ -360,7 +360,9 @@ export async function getResponseSchema(
 }
 
 /**
- * Generate TypeScript interface from detected fields (client-side fallback)
+ * Generate TypeScript interface from detected fields (client-side fallback).
+ * Schemas saved in response_schemas/ are turned into types and zod
+ * validators by `npm run generate:schemas` instead.
  */
 export function generateTypeScriptInterface(
   fields: ResponseFieldInfo[],
@@ -31,16 +31,26 @@
  * ```
  */
 
-import parseLLMJson from '@/utils/jsonParser'
+import { parseSSEStream, type ParsedSSEEvent } from '@/lib/event-parser'
+import { AGENT_RESPONSE_PARSE_OPTIONS, formatParseDiagnostics, parseJson, readPartialJson } from '@/lib/json-parser'
+import { createStreamingJsonParser, type StreamingJsonSnapshot } from '@/lib/streaming-json'
+import { createUploadProgress, type UploadProgressCallback } from '@/lib/upload-progress'
+import { ApiError, toApiError, type RequestOptions } from '@/lib/http-client'
+import {
+  agentChatEndpoint,
+  agentStreamEndpoint,
+  ingestAssetsEndpoint,
+  lyzrClient,
+  uploadAssetsEndpoint,
+  type AgentInferenceRequest,
+} from '@/lib/lyzr-api'
+import {
+  validateAgentResult,
+  type AgentResponseSchema,
+  type ResponseValidationError,
+} from '@/lib/response-schemas'
 import React from 'react'
 
-// =============================================================================
-// Configuration
-// =============================================================================
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
-
 // =============================================================================
 // Types - UI can rely on these!
 // =============================================================================
@@ -74,6 +84,8 @@ export interface AIAgentResponse {
   response: NormalizedAgentResponse
   /** Agent ID used */
   agent_id?: string
+  /** Request ID sent with every attempt, to correlate retries in logs and errors */
+  request_id?: string
   /** User ID used */
   user_id?: string
   /** Session ID used */
@@ -86,12 +98,88 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** True if the request was aborted via options.signal */
+  cancelled?: boolean
+  /** Network, timeout or HTTP failure behind an unsuccessful call */
+  apiError?: ApiError
+  /** Set when the result did not match options.responseSchema */
+  validationError?: ResponseValidationError
+  /** Attempts made, including retries */
+  attempts?: number
+  /** Retries that happened, in order */
+  retries?: AIAgentRetry[]
+}
+
+/**
+ * A failed attempt that is being retried
+ */
+export interface AIAgentRetry {
+  /** Attempt about to start, from 2 */
+  attempt: number
+  max_attempts: number
+  /** Wait before the attempt, in ms */
+  delay_ms: number
+  /** Why the previous attempt failed */
+  reason: string
+}
+
+/**
+ * Options for callAIAgent / callAIAgentStream
+ */
+export interface AIAgentCallOptions {
+  user_id?: string
+  session_id?: string
+  /** Asset IDs from uploadFiles to attach to the message */
+  assets?: string[]
+  /** Knowledge base document names the question is restricted to */
+  document_scope?: string[]
+  /** Abort the request */
+  signal?: AbortSignal
+  /** Time allowed per attempt for the response to start (and, when streaming, between chunks); default 2 minutes */
+  timeoutMs?: number
+  /** Attempts, including the first, for calls the model cannot have seen (connection failures, 429/503 with Retry-After); default 3 */
+  maxAttempts?: number
+  /** Called before each retry, e.g. to show "retrying (2/3)" */
+  onRetry?: (retry: AIAgentRetry) => void
+  /** Validate (and coerce) a successful result against the agent's schema */
+  responseSchema?: AgentResponseSchema
+}
+
+/**
+ * Incremental update delivered while a streamed response arrives
+ */
+export interface AIAgentStreamChunk {
+  /** Text received in this chunk */
+  delta: string
+  /** Full raw text received so far */
+  text: string
+  /** Answer received so far - the partial "answer" field, or the plain text */
+  answer: string
+  /** JSON received so far; not started for plain-text output */
+  snapshot: StreamingJsonSnapshot
+  /** Typed result so far from options.responseSchema's partial reader; null for plain text */
+  result: unknown
+}
+
+export interface AIAgentStreamOptions extends AIAgentCallOptions {
+  /** Called for every chunk of the streamed response */
+  onChunk?: (chunk: AIAgentStreamChunk) => void
 }
 
 // =============================================================================
 // Helpers
 // =============================================================================
 
+/**
+ * The answer field of JSON received so far - under result or at the top level
+ */
+function readPartialAnswer(value: unknown): string {
+  if (typeof value !== 'object' || value === null) return ''
+  const { result, answer } = value as { result?: { answer?: unknown }; answer?: unknown }
+  const found = (typeof result === 'object' && result !== null ? result.answer : undefined) ?? answer
+  return typeof found === 'string' ? found : ''
+}
+
 function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
     const r = Math.random() * 16 | 0
@@ -186,6 +274,172 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
   }
 }
 
+/**
+ * Resolve IDs and build the inference request payload
+ */
+function buildAgentRequest(message: string, agent_id: string, options?: AIAgentCallOptions) {
+  const user_id = options?.user_id || `user-${generateUUID()}`
+  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  // Same id on every retry of this call - it only correlates the attempts;
+  // the API does not de-duplicate on it
+  const request_id = generateUUID()
+
+  // Build request payload
+  const payload: AgentInferenceRequest = {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+    request_id,
+  }
+
+  // Add assets if provided (file attachments from uploadFiles)
+  if (options?.assets && options.assets.length > 0) {
+    payload.assets = options.assets
+  }
+
+  // Scope retrieval to specific documents
+  if (options?.document_scope && options.document_scope.length > 0) {
+    payload.document_scope = options.document_scope
+  }
+
+  return { payload, ids: { agent_id, user_id, session_id, request_id } }
+}
+
+/**
+ * Client options for an agent call; retries are recorded in `retries`
+ */
+function buildRequestOptions(options: AIAgentCallOptions | undefined, retries: AIAgentRetry[]): RequestOptions {
+  return {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    maxAttempts: options?.maxAttempts,
+    onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+      const retry: AIAgentRetry = {
+        attempt,
+        max_attempts: maxAttempts,
+        delay_ms: delayMs,
+        reason: error.message,
+      }
+      retries.push(retry)
+      options?.onRetry?.(retry)
+    },
+  }
+}
+
+/**
+ * Add the attempt count and retries to a finished response
+ */
+function withAttempts(response: AIAgentResponse, retries: AIAgentRetry[]): AIAgentResponse {
+  return retries.length > 0
+    ? { ...response, attempts: retries.length + 1, retries }
+    : { ...response, attempts: 1 }
+}
+
+/**
+ * Read the next stream chunk, cancelling the stream if none arrives in time
+ */
+async function readStreamChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (!timeoutMs) return reader.read()
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const stalled = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => undefined)
+      reject(
+        new ApiError('timeout', `Stream stalled - no data for ${Math.round(timeoutMs / 1000)}s`, {
+          endpoint: agentStreamEndpoint.name,
+        })
+      )
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([reader.read(), stalled])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Build the error response for a request that failed before an answer arrived
+ */
+function buildErrorResponse(error: ApiError): AIAgentResponse {
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: error.message
+    },
+    error: error.message,
+    details: error.body,
+    raw_response: error.body,
+    cancelled: error.kind === 'aborted',
+    apiError: error,
+  }
+}
+
+/**
+ * Turn a successful response body into the guaranteed AIAgentResponse shape
+ */
+function buildAgentResponse(
+  rawText: string,
+  ids: { agent_id: string; user_id: string; session_id: string; request_id: string },
+  responseSchema?: AgentResponseSchema
+): AIAgentResponse {
+  const parsed = parseJson(rawText, AGENT_RESPONSE_PARSE_OPTIONS)
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: parsed.error
+      },
+      error: parsed.error,
+      details: formatParseDiagnostics(parsed),
+      raw_response: rawText,
+    }
+  }
+
+  // Normalize to guaranteed structure
+  const normalized = normalizeResponse(parsed.data)
+
+  // Check the result against the agent's schema; error responses are left as they are
+  if (responseSchema && normalized.status === 'success') {
+    const validated = validateAgentResult(responseSchema, normalized.result)
+    if (!validated.ok) {
+      return {
+        success: false,
+        response: {
+          ...normalized,
+          status: 'error',
+          message: validated.error.message
+        },
+        ...ids,
+        error: validated.error.message,
+        details: JSON.stringify(validated.error.issues),
+        raw_response: rawText,
+        validationError: validated.error,
+      }
+    }
+    normalized.result = validated.value as Record<string, any>
+  }
+
+  return {
+    success: true,
+    response: normalized,
+    ...ids,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
+  }
+}
+
 // =============================================================================
 // Main API Function
 // =============================================================================
@@ -195,7 +449,8 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id, session_id, and assets (file attachments)
+ * @param options - Optional user_id, session_id, assets (file attachments), abort signal,
+ *   timeout and retry settings
  * @returns Promise with normalized AI agent response
  *
  * @example
@@ -213,102 +468,148 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
  * }
+ *
+ * // Shorter timeout, with retry progress
+ * await callAIAgent('Summarize the handbook', 'your-agent-id', {
+ *   timeoutMs: 30000,
+ *   onRetry: ({ attempt, max_attempts }) => setStatus(`Retrying (${attempt}/${max_attempts})`),
+ * })
  * ```
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: AIAgentCallOptions
 ): Promise<AIAgentResponse> {
-  const user_id = options?.user_id || `user-${generateUUID()}`
-  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const { payload, ids } = buildAgentRequest(message, agent_id, options)
+  const retries: AIAgentRetry[] = []
 
-  // Build request payload
-  const payload: Record<string, any> = {
-    message,
-    agent_id,
-    user_id,
-    session_id,
-  }
+  const result = await lyzrClient.request(agentChatEndpoint, payload, buildRequestOptions(options, retries))
+  if (!result.ok) return withAttempts({ ...buildErrorResponse(result.error), request_id: ids.request_id }, retries)
 
-  // Add assets if provided (file attachments from uploadFiles)
-  if (options?.assets && options.assets.length > 0) {
-    payload.assets = options.assets
+  return withAttempts(buildAgentResponse(result.value, ids, options?.responseSchema), retries)
+}
+
+/**
+ * Read the token text out of one SSE event.
+ * JSON events (e.g. {"content": "..."}) give their token field; plain text
+ * tokens are used as sent so their whitespace is preserved.
+ */
+function readStreamToken(event: ParsedSSEEvent): string {
+  if (event.data === undefined || event.data === '[DONE]') return ''
+
+  if (event.success && event.parseStrategy === 'direct' && event.event) {
+    const data = event.event as any
+    const token = data.content ?? data.delta ?? data.token ?? data.text
+    if (typeof token === 'string') return token
   }
 
+  return event.data
+}
+
+/**
+ * Call the AI Agent and stream the response as it is generated
+ *
+ * Tokens are delivered through `onChunk` as they arrive, together with the
+ * JSON parsed so far and - when `responseSchema` has a partial reader - the
+ * typed result received so far; the returned promise resolves with the same
+ * normalized AIAgentResponse as callAIAgent once the stream ends. Servers
+ * that answer with a plain (non-SSE) body are handled too.
+ *
+ * @param message - Your query or prompt for the AI agent
+ * @param agent_id - Agent ID (required)
+ * @param options - callAIAgent options plus `onChunk`
+ * @returns Promise with normalized AI agent response
+ *
+ * @example
+ * ```tsx
+ * const controller = new AbortController()
+ * const result = await callAIAgentStream('What changed in Q3?', 'your-agent-id', {
+ *   signal: controller.signal,
+ *   onChunk: ({ answer }) => setPartialAnswer(answer),
+ * })
+ * ```
+ */
+export async function callAIAgentStream(
+  message: string,
+  agent_id: string,
+  options?: AIAgentStreamOptions
+): Promise<AIAgentResponse> {
+  const { payload, ids } = buildAgentRequest(message, agent_id, options)
+  const retries: AIAgentRetry[] = []
+
+  // Retries only happen before the stream starts, so no chunk is delivered twice
+  const result = await lyzrClient.request(agentStreamEndpoint, payload, buildRequestOptions(options, retries))
+  if (!result.ok) return withAttempts({ ...buildErrorResponse(result.error), request_id: ids.request_id }, retries)
+
+  const response = result.value
+  const stallTimeoutMs = options?.timeoutMs ?? agentStreamEndpoint.timeoutMs
+
   try {
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    const rawText = await response.text()
-
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
-        }
-      }
+    const contentType = response.headers.get('content-type') || ''
+    if (!response.body || !contentType.includes('text/event-stream')) {
+      const rawText = await response.text()
+      return withAttempts(buildAgentResponse(rawText, ids, options?.responseSchema), retries)
+    }
 
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let text = ''
+    const parser = createStreamingJsonParser()
 
-      return {
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
+    const handleEvent = (event: ParsedSSEEvent) => {
+      const delta = readStreamToken(event)
+      if (!delta) return
+
+      text += delta
+      let snapshot = parser.push(delta)
+
+      // JSON (or fenced JSON) output: show the answer field; plain text: show it all
+      if (!/^\s*[{`]/.test(text)) {
+        options?.onChunk?.({ delta, text, answer: text, snapshot, result: null })
+        return
       }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
 
-      return {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg
-        },
-        error: errorMsg,
-        raw_response: rawText,
+      // Syntax the incremental parser stops on (single quotes, Python
+      // literals): read everything received so far with repairs instead
+      if (snapshot.error || !snapshot.started) snapshot = readPartialJson(text)
+
+      options?.onChunk?.({
+        delta,
+        text,
+        answer: readPartialAnswer(snapshot.value),
+        snapshot,
+        result: options.responseSchema?.partial?.(snapshot) ?? null,
+      })
+    }
+
+    const handleBlock = (block: string) => parseSSEStream(block).forEach(handleEvent)
+
+    let chunk = await readStreamChunk(reader, stallTimeoutMs)
+    while (!chunk.done) {
+      buffer += decoder.decode(chunk.value, { stream: true })
+
+      // A blank line terminates each SSE event
+      let boundary = buffer.search(/\r?\n\r?\n/)
+      while (boundary !== -1) {
+        const block = buffer.substring(0, boundary)
+        buffer = buffer.substring(boundary).replace(/^\r?\n\r?\n/, '')
+        handleBlock(block)
+        boundary = buffer.search(/\r?\n\r?\n/)
       }
+
+      chunk = await readStreamChunk(reader, stallTimeoutMs)
     }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) handleBlock(buffer)
+
+    return withAttempts(buildAgentResponse(text, ids, options?.responseSchema), retries)
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Network error'
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: errorMsg
-      },
-      error: errorMsg,
-      details: error instanceof Error ? error.stack : String(error),
-    }
+    // The connection dropped, stalled or the caller aborted mid-stream
+    const failure = buildErrorResponse(toApiError(error, agentStreamEndpoint.name))
+    return withAttempts({ ...failure, request_id: ids.request_id }, retries)
   }
 }
 
@@ -352,7 +653,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: AIAgentCallOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -439,9 +740,6 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-const LYZR_RAG_INGEST_URL = 'https://agent-prod.studio.lyzr.ai/v3/rag/ingest'
-
 /**
  * Upload result for a single file
  */
@@ -474,6 +772,8 @@ export interface UploadResponse {
   timestamp: string
   /** Error message if success is false */
   error?: string
+  /** Whether the same upload may succeed if sent again (network errors, timeouts, 408, 429, 5xx) */
+  retryable?: boolean
 }
 
 /**
@@ -482,6 +782,7 @@ export interface UploadResponse {
  * Returns asset_ids that can be passed to callAIAgent via the assets parameter.
  *
  * @param files - File or array of Files to upload
+ * @param options - onProgress receives 'uploading' (with bytes sent), then 'uploaded' or 'failed'
  * @returns Promise with upload response containing asset_ids
  *
  * @example
@@ -498,10 +799,19 @@ export interface UploadResponse {
  * // Multiple files
  * const result = await uploadFiles([file1, file2])
  * console.log(result.asset_ids) // ['uuid1', 'uuid2']
+ *
+ * // With progress
+ * await uploadFiles(file, {
+ *   onProgress: (progress) => console.log(progress.stage, progress.percent),
+ * })
  * ```
  */
-export async function uploadFiles(files: File | File[]): Promise<UploadResponse> {
+export async function uploadFiles(
+  files: File | File[],
+  options: { onProgress?: UploadProgressCallback; signal?: AbortSignal } = {}
+): Promise<UploadResponse> {
   const fileArray = Array.isArray(files) ? files : [files]
+  const { onProgress } = options
 
   if (fileArray.length === 0) {
     return {
@@ -517,7 +827,19 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     }
   }
 
-  if (!LYZR_API_KEY) {
+  const result = await lyzrClient.request(
+    uploadAssetsEndpoint,
+    { files: fileArray },
+    {
+      signal: options.signal,
+      onUploadProgress: (bytesSent, totalBytes) =>
+        onProgress?.(createUploadProgress('uploading', { bytesSent, totalBytes })),
+    }
+  )
+
+  if (!result.ok) {
+    onProgress?.(createUploadProgress('failed', { error: result.error.message }))
+
     return {
       success: false,
       asset_ids: [],
@@ -525,82 +847,38 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
       total_files: fileArray.length,
       successful_uploads: 0,
       failed_uploads: fileArray.length,
-      message: 'VITE_LYZR_API_KEY not configured',
+      message: result.error.message,
       timestamp: new Date().toISOString(),
-      error: 'VITE_LYZR_API_KEY not configured in environment',
+      error: result.error.body || result.error.message,
+      retryable: result.error.retryable,
     }
   }
 
-  try {
-    const formData = new FormData()
-    for (const file of fileArray) {
-      formData.append('files', file, file.name)
-    }
+  const data = result.value
 
-    const response = await fetch(LYZR_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-        // Don't set Content-Type - let fetch set it with boundary for multipart
-      },
-      body: formData,
-    })
+  // Extract asset IDs from response
+  const uploadedFiles: UploadedFile[] = (data.results || []).map((r) => ({
+    asset_id: r.asset_id || '',
+    file_name: r.file_name || '',
+    success: r.success ?? true,
+    error: r.error,
+  }))
 
-    if (response.ok) {
-      const data = await response.json()
+  const assetIds = uploadedFiles
+    .filter((f) => f.success && f.asset_id)
+    .map((f) => f.asset_id)
 
-      // Extract asset IDs from response
-      const uploadedFiles: UploadedFile[] = (data.results || []).map((r: any) => ({
-        asset_id: r.asset_id || '',
-        file_name: r.file_name || '',
-        success: r.success ?? true,
-        error: r.error,
-      }))
+  onProgress?.(createUploadProgress('uploaded'))
 
-      const assetIds = uploadedFiles
-        .filter((f) => f.success && f.asset_id)
-        .map((f) => f.asset_id)
-
-      return {
-        success: true,
-        asset_ids: assetIds,
-        files: uploadedFiles,
-        total_files: data.total_files || fileArray.length,
-        successful_uploads: data.successful_uploads || assetIds.length,
-        failed_uploads: data.failed_uploads || 0,
-        message: `Successfully uploaded ${assetIds.length} file(s)`,
-        timestamp: new Date().toISOString(),
-      }
-    } else {
-      const errorText = await response.text()
-      console.error('Upload API error:', response.status, errorText)
-
-      return {
-        success: false,
-        asset_ids: [],
-        files: [],
-        total_files: fileArray.length,
-        successful_uploads: 0,
-        failed_uploads: fileArray.length,
-        message: `Upload failed with status ${response.status}`,
-        timestamp: new Date().toISOString(),
-        error: errorText,
-      }
-    }
-  } catch (error) {
-    console.error('File upload error:', error)
-
-    return {
-      success: false,
-      asset_ids: [],
-      files: [],
-      total_files: fileArray.length,
-      successful_uploads: 0,
-      failed_uploads: fileArray.length,
-      message: 'Network error during upload',
-      timestamp: new Date().toISOString(),
-      error: error instanceof Error ? error.message : String(error),
-    }
+  return {
+    success: true,
+    asset_ids: assetIds,
+    files: uploadedFiles,
+    total_files: data.total_files || fileArray.length,
+    successful_uploads: data.successful_uploads || assetIds.length,
+    failed_uploads: data.failed_uploads || 0,
+    message: `Successfully uploaded ${assetIds.length} file(s)`,
+    timestamp: new Date().toISOString(),
   }
 }
 
@@ -680,6 +958,8 @@ export interface RAGIngestResponse {
   message: string
   /** Error message if success is false */
   error?: string
+  /** Whether the same request may succeed if sent again (network errors, timeouts, 408, 429, 5xx) */
+  retryable?: boolean
 }
 
 /**
@@ -690,6 +970,7 @@ export interface RAGIngestResponse {
  *
  * @param rag_id - RAG knowledge base ID
  * @param asset_ids - Array of asset IDs from uploadFiles()
+ * @param options - onProgress receives 'training', then 'done' or 'failed'
  * @returns Promise with ingestion response
  *
  * @example
@@ -708,8 +989,11 @@ export interface RAGIngestResponse {
  */
 export async function ingestFilesToRAG(
   rag_id: string,
-  asset_ids: string[]
+  asset_ids: string[],
+  options: { onProgress?: UploadProgressCallback } = {}
 ): Promise<RAGIngestResponse> {
+  const { onProgress } = options
+
   if (!rag_id) {
     return {
       success: false,
@@ -728,68 +1012,27 @@ export async function ingestFilesToRAG(
     }
   }
 
-  if (!LYZR_API_KEY) {
-    return {
-      success: false,
-      files_ingested: 0,
-      message: 'VITE_LYZR_API_KEY not configured',
-      error: 'VITE_LYZR_API_KEY not configured in environment',
-    }
-  }
+  onProgress?.(createUploadProgress('training'))
 
-  try {
-    // Use JSON payload for RAG ingestion
-    const payload = {
-      rag_id: rag_id,
-      asset_ids: asset_ids,
-    }
+  const result = await lyzrClient.request(ingestAssetsEndpoint, { rag_id, asset_ids })
 
-    const response = await fetch(LYZR_RAG_INGEST_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    const responseText = await response.text()
-    console.log('RAG ingest response:', response.status, responseText)
-
-    if (response.ok) {
-      try {
-        const data = JSON.parse(responseText)
-        return {
-          success: true,
-          files_ingested: asset_ids.length,
-          message: `Successfully ingested ${asset_ids.length} file(s) into knowledge base`,
-        }
-      } catch {
-        // Response might not be JSON
-        return {
-          success: true,
-          files_ingested: asset_ids.length,
-          message: `Successfully ingested ${asset_ids.length} file(s) into knowledge base`,
-        }
-      }
-    } else {
-      console.error('RAG ingest API error:', response.status, responseText)
-
-      return {
-        success: false,
-        files_ingested: 0,
-        message: `Ingestion failed with status ${response.status}`,
-        error: responseText,
-      }
-    }
-  } catch (error) {
-    console.error('RAG ingest error:', error)
+  if (!result.ok) {
+    onProgress?.(createUploadProgress('failed', { error: result.error.message }))
 
     return {
       success: false,
       files_ingested: 0,
-      message: 'Network error during ingestion',
-      error: error instanceof Error ? error.message : String(error),
+      message: result.error.message,
+      error: result.error.body || result.error.message,
+      retryable: result.error.retryable,
     }
   }
+
+  onProgress?.(createUploadProgress('done'))
+
+  return {
+    success: true,
+    files_ingested: asset_ids.length,
+    message: `Successfully ingested ${asset_ids.length} file(s) into knowledge base`,
+  }
 }
@@ -0,0 +1,676 @@
+/**
+ * Document Parser Registry
+ *
+ * Pluggable registry of document formats the RAG knowledge base can ingest,
+ * keyed by MIME type and file extension.
+ *
+ * - "server" parsers send the file to the Lyzr Parse API (/parse/{type}/)
+ * - "client" parsers convert the file in the browser into the same
+ *   `documents` chunk array that /rag/train/{ragId}/ accepts
+ *
+ * BUILT-IN FORMATS:
+ * - Server: PDF, DOCX, TXT
+ * - Client: Markdown, HTML, CSV, PPTX
+ *
+ * @example
+ * ```typescript
+ * import { registerDocumentParser, findDocumentParser } from '@/utils/documentParsers'
+ *
+ * // Add a new client-side format
+ * registerDocumentParser({
+ *   type: 'json',
+ *   label: 'JSON',
+ *   mimeTypes: ['application/json'],
+ *   extensions: ['.json'],
+ *   mode: 'client',
+ *   parse: async (file) => [{ text: await file.text() }],
+ * })
+ *
+ * const parser = findDocumentParser(file)
+ * ```
+ */
+
+import JSZip from 'jszip'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A piece of extracted text with metadata (e.g. a slide, a section, a row range)
+ */
+export interface ParsedSection {
+  text: string
+  metadata?: Record<string, any>
+}
+
+/**
+ * Document chunk in the format accepted by /rag/train/{ragId}/
+ * (same shape the Lyzr Parse API returns in `documents`)
+ */
+export interface RAGTrainingDocument {
+  id_: string
+  text: string
+  metadata: Record<string, any>
+  embedding: null
+  excluded_embed_metadata_keys: string[]
+  excluded_llm_metadata_keys: string[]
+}
+
+interface DocumentParserBase {
+  /** Short type key, e.g. 'pdf' or 'md' (used as RAGDocument.fileType) */
+  type: string
+  /** Human-readable name for UI copy */
+  label: string
+  mimeTypes: string[]
+  /** Lowercase extensions including the dot, e.g. '.md' */
+  extensions: string[]
+}
+
+export interface ServerDocumentParser extends DocumentParserBase {
+  mode: 'server'
+  /** `data_parser` value sent to /parse/{type}/ */
+  serverParser: string
+}
+
+export interface ClientDocumentParser extends DocumentParserBase {
+  mode: 'client'
+  /** Extract text sections from the file in the browser */
+  parse: (file: File) => Promise<ParsedSection[]>
+}
+
+export type DocumentParser = ServerDocumentParser | ClientDocumentParser
+
+/**
+ * How text is split into training chunks
+ * - fixed: fixed-size windows on word boundaries
+ * - sentence: whole sentences packed up to the chunk size
+ * - heading: like sentence, but never crossing a heading; each chunk is
+ *   prefixed with its section heading
+ */
+export type ChunkingStrategy = 'fixed' | 'sentence' | 'heading'
+
+export interface ChunkingOptions {
+  /** Target chunk length in characters */
+  chunkSize: number
+  /** Characters repeated from the end of the previous chunk */
+  chunkOverlap: number
+  strategy: ChunkingStrategy
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
+  chunkSize: 1000,
+  chunkOverlap: 100,
+  strategy: 'fixed',
+}
+
+const MIN_CHUNK_SIZE = 100
+const CSV_ROWS_PER_SECTION = 25
+
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = Math.random() * 16 | 0
+    const v = c === 'x' ? r : (r & 0x3 | 0x8)
+    return v.toString(16)
+  })
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  return dot === -1 ? '' : fileName.substring(dot).toLowerCase()
+}
+
+/**
+ * Fill in defaults and clamp values so chunking always terminates
+ * (size at least 100 characters, overlap below half the size)
+ */
+export function normalizeChunkingOptions(options?: Partial<ChunkingOptions>): ChunkingOptions {
+  const chunkSize = Math.max(
+    MIN_CHUNK_SIZE,
+    Math.round(options?.chunkSize || DEFAULT_CHUNKING_OPTIONS.chunkSize)
+  )
+  const chunkOverlap = Math.min(
+    Math.max(0, Math.round(options?.chunkOverlap ?? DEFAULT_CHUNKING_OPTIONS.chunkOverlap)),
+    Math.floor(chunkSize / 2)
+  )
+  return { chunkSize, chunkOverlap, strategy: options?.strategy || DEFAULT_CHUNKING_OPTIONS.strategy }
+}
+
+const collapseWhitespace = (text: string) =>
+  text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim()
+
+/**
+ * Fixed-size windows on word boundaries, repeating the last `chunkOverlap`
+ * characters at the start of the next window
+ */
+function chunkFixed(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  if (text.length <= chunkSize) return [text]
+
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length)
+
+    // Back up to the last whitespace so words are not cut in half
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(' ', end)
+      if (lastSpace > start + chunkSize / 2) end = lastSpace
+    }
+
+    chunks.push(text.substring(start, end).trim())
+    if (end >= text.length) break
+
+    start = Math.max(end - chunkOverlap, start + 1)
+    // Start the overlap on a word boundary
+    const nextSpace = text.indexOf(' ', start)
+    if (nextSpace !== -1 && nextSpace < end) start = nextSpace + 1
+  }
+
+  return chunks
+}
+
+/**
+ * Pack whole sentences into chunks of at most `chunkSize` characters.
+ * Trailing sentences that fit within `chunkOverlap` are repeated at the
+ * start of the next chunk, as far as the next sentence leaves room; a
+ * sentence longer than a chunk falls back to fixed-size windows.
+ */
+function chunkSentences(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const sentences = (text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let length = 0
+  // Sentences added since the last flush (the rest is carried-over overlap)
+  let fresh = 0
+
+  const flush = () => {
+    if (fresh === 0) return
+    chunks.push(current.join(' '))
+
+    // Carry trailing sentences over as overlap, never the whole chunk
+    const carried: string[] = []
+    length = 0
+    for (let i = current.length - 1; i > 0; i--) {
+      if (length + current[i].length > chunkOverlap) break
+      carried.unshift(current[i])
+      length += current[i].length + 1
+    }
+    current = carried
+    fresh = 0
+  }
+
+  for (const sentence of sentences) {
+    if (sentence.length > chunkSize) {
+      flush()
+      chunks.push(...chunkFixed(sentence, chunkSize, chunkOverlap))
+      current = []
+      length = 0
+      continue
+    }
+    if (length + sentence.length > chunkSize) flush()
+    // Drop overlap from the front until the sentence fits
+    while (current.length > 0 && length + sentence.length > chunkSize) {
+      length -= current[0].length + 1
+      current.shift()
+    }
+    current.push(sentence)
+    length += sentence.length + 1
+    fresh++
+  }
+  flush()
+
+  return chunks
+}
+
+/**
+ * Split text at heading lines: Markdown headings, or short capitalised lines
+ * without closing punctuation that follow a blank line (typical of PDF and
+ * DOCX text extraction)
+ */
+function splitAtHeadings(text: string): Array<{ heading?: string; body: string }> {
+  const lines = text.split(/\r?\n/)
+  const parts: Array<{ heading?: string; body: string }> = []
+  let heading: string | undefined
+  let body: string[] = []
+
+  const isHeading = (i: number) => {
+    const line = lines[i].trim()
+    if (/^#{1,6}\s+\S/.test(line)) return true
+    return (
+      line.length <= 80 &&
+      /^[A-Z0-9]/.test(line) &&
+      !/[.!?,;:]$|[.!?]\s/.test(line) &&
+      (i === 0 || !lines[i - 1].trim()) &&
+      i + 1 < lines.length
+    )
+  }
+
+  // A heading with no body is kept as plain text so nothing is dropped
+  const flush = () => {
+    const content = body.join('\n').trim()
+    if (content) parts.push({ heading, body: content })
+    else if (heading) parts.push({ body: heading })
+  }
+
+  lines.forEach((line, i) => {
+    if (isHeading(i)) {
+      flush()
+      heading = line.trim().replace(/^#{1,6}\s+/, '')
+      body = []
+    } else {
+      body.push(line)
+    }
+  })
+  flush()
+
+  return parts
+}
+
+/**
+ * Split sections into chunk-sized sections using the given strategy.
+ * Section metadata is kept on every chunk; heading-aware chunking adds
+ * `section` when it finds headings inside the text.
+ */
+export function chunkSections(
+  sections: ParsedSection[],
+  options?: Partial<ChunkingOptions>
+): ParsedSection[] {
+  const { chunkSize, chunkOverlap, strategy } = normalizeChunkingOptions(options)
+
+  return sections.flatMap((section) => {
+    if (strategy === 'fixed') {
+      const text = collapseWhitespace(section.text)
+      return text
+        ? chunkFixed(text, chunkSize, chunkOverlap).map((chunk) => ({ ...section, text: chunk }))
+        : []
+    }
+
+    if (strategy === 'sentence') {
+      return chunkSentences(collapseWhitespace(section.text), chunkSize, chunkOverlap).map(
+        (chunk) => ({ ...section, text: chunk })
+      )
+    }
+
+    return splitAtHeadings(section.text).flatMap(({ heading, body }) => {
+      const sectionName = heading || section.metadata?.section
+      const prefix = sectionName ? `${sectionName}\n` : ''
+      const available = Math.max(chunkSize - prefix.length, MIN_CHUNK_SIZE)
+
+      return chunkSentences(collapseWhitespace(body), available, chunkOverlap).map((chunk) => ({
+        text: prefix + chunk,
+        metadata: { ...section.metadata, ...(sectionName ? { section: sectionName } : {}) },
+      }))
+    })
+  })
+}
+
+/**
+ * Split text into chunks using the given strategy (fixed-size by default)
+ */
+export function chunkText(text: string, options?: Partial<ChunkingOptions>): string[] {
+  return chunkSections([{ text }], options).map((section) => section.text)
+}
+
+/**
+ * Convert parsed sections into /rag/train chunk documents
+ */
+export function buildTrainingDocuments(
+  file: File,
+  sections: ParsedSection[],
+  options?: Partial<ChunkingOptions>
+): RAGTrainingDocument[] {
+  const baseMetadata = {
+    source: `storage/${file.name}`,
+    file_name: file.name,
+    file_type: file.type || getExtension(file.name),
+    file_size: file.size,
+  }
+
+  return chunkSections(sections, options).map((chunk) => ({
+    id_: generateId(),
+    text: chunk.text,
+    metadata: { ...baseMetadata, ...chunk.metadata },
+    embedding: null,
+    excluded_embed_metadata_keys: [],
+    excluded_llm_metadata_keys: [],
+  }))
+}
+
+// =============================================================================
+// Built-in Client Parsers
+// =============================================================================
+
+/**
+ * Markdown: one section per heading, with inline syntax stripped
+ */
+async function parseMarkdown(file: File): Promise<ParsedSection[]> {
+  const source = await file.text()
+  const sections: ParsedSection[] = []
+  let heading = ''
+  let lines: string[] = []
+
+  const flush = () => {
+    const text = lines.join('\n').trim()
+    if (text) sections.push({ text, metadata: heading ? { section: heading } : {} })
+    lines = []
+  }
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const headingMatch = rawLine.match(/^(#{1,6})\s+(.*)$/)
+    if (headingMatch) {
+      flush()
+      heading = headingMatch[2].trim()
+      lines.push(heading)
+      continue
+    }
+
+    const line = rawLine
+      .replace(/^```.*$/, '') // code fences (keep the code itself)
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // links -> text
+      .replace(/^\s*>\s?/, '') // blockquotes
+      .replace(/^\s*[-*+]\s+/, '- ') // list markers
+      .replace(/`([^`]+)`/g, '$1') // inline code
+      // Emphasis: paired delimiters only, so snake_case and 2 * 3 survive
+      .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '$1')
+      .replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1')
+      .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+      .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1')
+    lines.push(line)
+  }
+  flush()
+
+  return sections
+}
+
+/**
+ * HTML: visible text grouped by h1-h3 sections, scripts and styles removed
+ */
+async function parseHtml(file: File): Promise<ParsedSection[]> {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html')
+  doc.querySelectorAll('script, style, noscript, template, svg').forEach((el) => el.remove())
+
+  const title = doc.title.trim()
+  const sections: ParsedSection[] = []
+  let heading = title
+  let parts: string[] = []
+
+  const flush = () => {
+    const text = parts.join('\n').trim()
+    if (text) sections.push({ text, metadata: heading ? { section: heading } : {} })
+    parts = []
+  }
+
+  const blocks = doc.body?.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, td, th, pre, blockquote')
+  blocks?.forEach((el) => {
+    // Nested blocks (e.g. <p> inside <li>) are read through their ancestor
+    if (el.parentElement?.closest('p, li, td, th, pre, blockquote')) return
+
+    const text = (el.textContent || '').replace(/\s+/g, ' ').trim()
+    if (!text) return
+
+    if (/^H[1-3]$/.test(el.tagName)) {
+      flush()
+      heading = text
+    }
+    parts.push(text)
+  })
+
+  // Pages without block markup: fall back to all body text
+  if (sections.length === 0 && parts.length === 0) {
+    parts.push((doc.body?.textContent || '').replace(/\s+/g, ' ').trim())
+  }
+  flush()
+
+  return sections.map((section) => ({
+    ...section,
+    metadata: { ...section.metadata, ...(title ? { title } : {}) },
+  }))
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180 quoting)
+ */
+function parseCsvRows(input: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        field += ch
+      }
+      continue
+    }
+
+    if (ch === '"') {
+      inQuotes = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()))
+}
+
+/**
+ * CSV: each row rendered as "column: value" lines, grouped into row ranges
+ */
+async function parseCsv(file: File): Promise<ParsedSection[]> {
+  const [header, ...rows] = parseCsvRows(await file.text())
+  if (!header) return []
+
+  const sections: ParsedSection[] = []
+  for (let start = 0; start < rows.length; start += CSV_ROWS_PER_SECTION) {
+    const slice = rows.slice(start, start + CSV_ROWS_PER_SECTION)
+    const text = slice
+      .map((row) =>
+        header
+          .map((column, i) => `${column.trim() || `column_${i + 1}`}: ${(row[i] ?? '').trim()}`)
+          .join('; ')
+      )
+      .join('\n')
+
+    sections.push({
+      text,
+      metadata: {
+        rows: `${start + 1}-${start + slice.length}`,
+        columns: header.map((c) => c.trim()).join(', '),
+      },
+    })
+  }
+
+  return sections
+}
+
+/**
+ * PPTX: one section per slide (paragraph text plus speaker notes).
+ * Slides are numbered through `page_label` so citations show the slide number.
+ */
+async function parsePptx(file: File): Promise<ParsedSection[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const slideNumber = (path: string) => parseInt(path.match(/(\d+)\.xml$/)?.[1] || '0', 10)
+
+  const readParagraphs = async (path: string): Promise<string[]> => {
+    const xml = await zip.file(path)?.async('string')
+    if (!xml) return []
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    return Array.from(doc.getElementsByTagName('a:p'))
+      .map((p) =>
+        Array.from(p.getElementsByTagName('a:t'))
+          .map((t) => t.textContent || '')
+          .join('')
+          .trim()
+      )
+      .filter(Boolean)
+  }
+
+  const slidePaths = Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideNumber(a) - slideNumber(b))
+
+  const sections: ParsedSection[] = []
+  for (const path of slidePaths) {
+    const number = slideNumber(path)
+    const paragraphs = await readParagraphs(path)
+    const notes = await readParagraphs(`ppt/notesSlides/notesSlide${number}.xml`)
+
+    const text = [...paragraphs, ...(notes.length > 0 ? ['Notes:', ...notes] : [])].join('\n')
+    if (text.trim()) {
+      sections.push({ text, metadata: { page_label: String(number), slide_number: number } })
+    }
+  }
+
+  return sections
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const parsers: DocumentParser[] = [
+  {
+    type: 'pdf',
+    label: 'PDF',
+    mimeTypes: ['application/pdf'],
+    extensions: ['.pdf'],
+    mode: 'server',
+    serverParser: 'pypdf',
+  },
+  {
+    type: 'docx',
+    label: 'DOCX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+    mode: 'server',
+    serverParser: 'docx2txt',
+  },
+  {
+    type: 'txt',
+    label: 'TXT',
+    mimeTypes: ['text/plain'],
+    extensions: ['.txt'],
+    mode: 'server',
+    serverParser: 'txt_parser',
+  },
+  {
+    type: 'md',
+    label: 'Markdown',
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extensions: ['.md', '.markdown'],
+    mode: 'client',
+    parse: parseMarkdown,
+  },
+  {
+    type: 'html',
+    label: 'HTML',
+    mimeTypes: ['text/html'],
+    extensions: ['.html', '.htm'],
+    mode: 'client',
+    parse: parseHtml,
+  },
+  {
+    type: 'csv',
+    label: 'CSV',
+    mimeTypes: ['text/csv', 'application/csv'],
+    extensions: ['.csv'],
+    mode: 'client',
+    parse: parseCsv,
+  },
+  {
+    type: 'pptx',
+    label: 'PPTX',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['.pptx'],
+    mode: 'client',
+    parse: parsePptx,
+  },
+]
+
+/**
+ * Register (or replace, by `type`) a document parser
+ */
+export function registerDocumentParser(parser: DocumentParser): void {
+  const index = parsers.findIndex((p) => p.type === parser.type)
+  if (index === -1) {
+    parsers.push(parser)
+  } else {
+    parsers[index] = parser
+  }
+}
+
+/**
+ * All registered parsers, in registration order
+ */
+export function listDocumentParsers(): DocumentParser[] {
+  return [...parsers]
+}
+
+/**
+ * Find the parser for a file. The extension wins over the MIME type because
+ * browsers report .md as text/plain and some platforms report nothing at all.
+ */
+export function findDocumentParser(file: { name: string; type?: string }): DocumentParser | null {
+  const ext = getExtension(file.name)
+  return (
+    (ext && parsers.find((p) => p.extensions.includes(ext))) ||
+    (file.type && parsers.find((p) => p.mimeTypes.includes(file.type))) ||
+    null
+  )
+}
+
+/**
+ * Find a parser by MIME type
+ */
+export function findDocumentParserByMime(mimeType: string): DocumentParser | null {
+  return parsers.find((p) => p.mimeTypes.includes(mimeType)) || null
+}
+
+/**
+ * Comma-separated extension list for <input type="file" accept>
+ */
+export function getAcceptedFileExtensions(): string {
+  return parsers.flatMap((p) => p.extensions).join(',')
+}
+
+/**
+ * Human-readable list of supported formats, e.g. "PDF, DOCX, TXT, Markdown"
+ */
+export function getSupportedFormatLabels(): string {
+  return parsers.map((p) => p.label).join(', ')
+}
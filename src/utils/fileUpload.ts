@@ -17,13 +17,8 @@
  * const response = await callAIAgent('What is in this image?', 'your-agent-id')
  */
 
-import parseLLMJson from '@/utils/jsonParser'
-
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
-// API Key from environment variable
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
+import { AGENT_RESPONSE_PARSE_OPTIONS, parseJson } from '@/lib/json-parser'
+import { agentChatEndpoint, lyzrClient } from '@/lib/lyzr-api'
 
 export interface UploadedAsset {
   success: boolean
@@ -153,71 +148,48 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
     asset_ids = uploadResult.asset_ids
   }
 
-  // Call Lyzr Agent API directly with assets
-  try {
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        message,
-        agent_id,
-        user_id,
-        session_id,
-        assets: asset_ids.length > 0 ? asset_ids : undefined,
-      }),
-    })
+  // Call Lyzr Agent API through the shared client with assets
+  const result = await lyzrClient.request(agentChatEndpoint, {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+    assets: asset_ids.length > 0 ? asset_ids : undefined,
+  })
 
-    const rawText = await response.text()
+  if (!result.ok) {
+    return {
+      success: false,
+      error: result.error.message,
+      raw_response: result.error.body,
+    }
+  }
 
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
+  const rawText = result.value
 
-      // Check if parsing failed
-      if (parsed?.success === false || parsed?.error) {
-        return {
-          success: false,
-          error: parsed?.error || 'Failed to parse agent response',
-          raw_response: rawText,
-        }
-      }
+  const parsed = parseJson<Record<string, any>>(rawText, AGENT_RESPONSE_PARSE_OPTIONS)
 
-      // The parsed data should be the agent's response object:
-      // { status: "success", result: {...}, message: "..." }
-      // Return it as-is so UI can access response.status, response.result, etc.
-      return {
-        success: true,
-        response: parsed,
-        agent_id: parsed?.agent_id || agent_id,
-        user_id: parsed?.user_id || user_id,
-        session_id: parsed?.session_id || session_id,
-        timestamp: parsed?.timestamp || new Date().toISOString(),
-        raw_response: rawText,
-      }
-    } else {
-      // Try to parse error response
-      let errorData: any = { error: 'Unknown error' }
-      try {
-        errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-      } catch {
-        errorData = { error: rawText || `API returned status ${response.status}` }
-      }
-
-      return {
-        success: false,
-        error: errorData.error || errorData.message || `API returned status ${response.status}`,
-        raw_response: rawText,
-      }
-    }
-  } catch (error) {
+  if (!parsed.success) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Chat request failed',
+      error: parsed.error || 'Failed to parse agent response',
+      raw_response: rawText,
     }
   }
+
+  // The parsed data should be the agent's response object:
+  // { status: "success", result: {...}, message: "..." }
+  // Return it as-is so UI can access response.status, response.result, etc.
+  const response = parsed.data
+  return {
+    success: true,
+    response,
+    agent_id: response?.agent_id || agent_id,
+    user_id: response?.user_id || user_id,
+    session_id: response?.session_id || session_id,
+    timestamp: response?.timestamp || new Date().toISOString(),
+    raw_response: rawText,
+  }
 }
 
 /**
@@ -3,10 +3,14 @@
  *
  * Direct wrapper for managing Lyzr RAG Knowledge Base (Vite-compatible)
  *
- * SUPPORTED FILE TYPES:
+ * SUPPORTED FILE TYPES (see utils/documentParsers.ts for the parser registry):
  * - PDF (.pdf) - application/pdf
  * - DOCX (.docx) - application/vnd.openxmlformats-officedocument.wordprocessingml.document
  * - TXT (.txt) - text/plain
+ * - Markdown (.md, .markdown) - text/markdown (parsed in the browser)
+ * - HTML (.html, .htm) - text/html (parsed in the browser)
+ * - CSV (.csv) - text/csv (parsed in the browser)
+ * - PPTX (.pptx) - application/vnd.openxmlformats-officedocument.presentationml.presentation (parsed in the browser)
  *
  * @example
  * ```tsx
@@ -24,49 +28,64 @@
  */
 
 import { useState } from 'react'
+import {
+  buildTrainingDocuments,
+  findDocumentParser,
+  findDocumentParserByMime,
+  getSupportedFormatLabels,
+  listDocumentParsers,
+  normalizeChunkingOptions,
+  type ChunkingOptions,
+  type DocumentParser,
+  type RAGTrainingDocument,
+} from '@/utils/documentParsers'
+import { createUploadProgress, type UploadProgressCallback } from '@/lib/upload-progress'
+import { API_KEY_MISSING_MESSAGE, getApiKey } from '@/lib/runtime-config'
+import {
+  deleteDocumentsEndpoint,
+  listDocumentsEndpoint,
+  lyzrClient,
+  parseDocumentEndpoint,
+  trainDocumentsEndpoint,
+} from '@/lib/lyzr-api'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
-const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
-
-// Supported file types with their parsers
-const FILE_TYPE_CONFIG: Record<string, { type: 'pdf' | 'docx' | 'txt'; parser: string }> = {
-  'application/pdf': { type: 'pdf', parser: 'pypdf' },
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { type: 'docx', parser: 'docx2txt' },
-  'text/plain': { type: 'txt', parser: 'txt_parser' },
-}
+// Requests go through the shared Lyzr client (see lyzr-api); base URLs and the
+// API key come from runtime-config (settings dialog or environment)
 
 // =============================================================================
-// Types
+// Supported Formats
 // =============================================================================
 
 /**
- * Supported file MIME types for RAG knowledge base
+ * Supported file MIME types for RAG knowledge base, from the parser registry
+ * (parsers registered after this module loads are not included)
  */
-export const SUPPORTED_FILE_TYPES = [
-  'application/pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'text/plain',
-] as const
+export const SUPPORTED_FILE_TYPES: readonly string[] = Array.from(
+  new Set(listDocumentParsers().flatMap((parser) => parser.mimeTypes))
+)
 
 export type SupportedFileType = typeof SUPPORTED_FILE_TYPES[number]
 
 /**
- * File extension to MIME type mapping
+ * File extension to MIME type mapping (each parser's first MIME type)
  */
-export const FILE_EXTENSION_MAP: Record<string, SupportedFileType> = {
-  '.pdf': 'application/pdf',
-  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  '.txt': 'text/plain',
-}
+export const FILE_EXTENSION_MAP: Record<string, SupportedFileType> = Object.fromEntries(
+  listDocumentParsers().flatMap((parser) => parser.extensions.map((ext) => [ext, parser.mimeTypes[0]]))
+)
+
+// =============================================================================
+// Types
+// =============================================================================
 
 export interface RAGDocument {
   id?: string
   fileName: string
-  fileType: 'pdf' | 'docx' | 'txt'
+  /** Parser type key, e.g. 'pdf', 'docx', 'md' */
+  fileType: string
   fileSize?: number
   status?: 'processing' | 'active' | 'failed' | 'deleted'
   uploadedAt?: string
@@ -92,6 +111,32 @@ export interface UploadResponse {
   ragId?: string
   error?: string
   details?: string
+  /** Whether the same request may succeed if sent again (network errors, timeouts, 408, 429, 5xx) */
+  retryable?: boolean
+  timestamp?: string
+}
+
+/**
+ * Per-upload options for parsing and training
+ */
+export interface UploadOptions {
+  /** Chunk size, overlap and strategy (defaults: 1000 / 100 / fixed) */
+  chunking?: Partial<ChunkingOptions>
+  /** Stage and byte progress: uploading -> parsing -> training -> done / failed */
+  onProgress?: UploadProgressCallback
+}
+
+export interface ParseResponse {
+  success: boolean
+  /** Chunks ready for /rag/train, in document order */
+  documents?: RAGTrainingDocument[]
+  fileName?: string
+  fileType?: string
+  chunking?: ChunkingOptions
+  error?: string
+  details?: string
+  /** Whether the same request may succeed if sent again (network errors, timeouts, 408, 429, 5xx) */
+  retryable?: boolean
   timestamp?: string
 }
 
@@ -112,39 +157,112 @@ export interface DeleteResponse {
 /**
  * Check if a file type is supported for RAG upload
  */
-export function isFileTypeSupported(fileType: string): fileType is SupportedFileType {
-  return SUPPORTED_FILE_TYPES.includes(fileType as SupportedFileType)
+export function isFileTypeSupported(fileType: string): boolean {
+  return !!fileType && !!findDocumentParserByMime(fileType)
 }
 
 /**
- * Get file type enum from MIME type
+ * Get file type key from MIME type
  */
-export function getFileTypeFromMime(mimeType: string): 'pdf' | 'docx' | 'txt' | null {
-  switch (mimeType) {
-    case 'application/pdf':
-      return 'pdf'
-    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-      return 'docx'
-    case 'text/plain':
-      return 'txt'
-    default:
-      return null
-  }
+export function getFileTypeFromMime(mimeType: string): string | null {
+  return findDocumentParserByMime(mimeType)?.type ?? null
+}
+
+/**
+ * Get file type key from a file name's extension
+ */
+export function getFileTypeFromName(fileName: string): string | null {
+  return findDocumentParser({ name: fileName })?.type ?? null
+}
+
+/**
+ * Resolve a file's MIME type, falling back to its extension when the browser
+ * reports none (common for .docx and .txt on some platforms) or reports a
+ * generic type (.md is often reported as text/plain)
+ */
+export function getFileMimeType(file: File): string {
+  const ext = file.name.split('.').pop()?.toLowerCase() || ''
+  return FILE_EXTENSION_MAP[`.${ext}`] || file.type || ''
 }
 
 /**
  * Validate a file before upload
  */
 export function validateFile(file: File): { isValid: boolean; error?: string } {
-  if (!isFileTypeSupported(file.type)) {
+  if (!findDocumentParser(file)) {
+    const mimeType = file.type || file.name.split('.').pop() || ''
     return {
       isValid: false,
-      error: `Unsupported file type: ${file.type}. Only PDF, DOCX, and TXT files are supported.`,
+      error: `Unsupported file type: ${mimeType || 'unknown'}. Only ${getSupportedFormatLabels()} files are supported.`,
     }
   }
   return { isValid: true }
 }
 
+/**
+ * Produce /rag/train chunk documents for a file, either through the Lyzr
+ * Parse API or through a client-side parser from the registry.
+ *
+ * The Parse API only chunks by fixed size, so for the sentence and heading
+ * strategies the file is parsed without chunk hints and the returned
+ * page-level text is re-chunked in the browser.
+ */
+async function parseDocument(
+  file: File,
+  parser: DocumentParser,
+  chunking: ChunkingOptions,
+  onProgress?: UploadProgressCallback
+): Promise<Pick<ParseResponse, 'success' | 'documents' | 'error' | 'details' | 'retryable'>> {
+  if (parser.mode === 'client') {
+    onProgress?.(createUploadProgress('parsing'))
+    const sections = await parser.parse(file)
+    const documents = buildTrainingDocuments(file, sections, chunking)
+    if (documents.length === 0) {
+      return { success: false, error: `No text could be extracted from ${file.name}` }
+    }
+    return { success: true, documents }
+  }
+
+  const parseFormData = new FormData()
+  parseFormData.append('file', file)
+  parseFormData.append('data_parser', parser.serverParser)
+  parseFormData.append('extra_info', '{}')
+
+  if (chunking.strategy === 'fixed') {
+    parseFormData.append('chunk_size', String(chunking.chunkSize))
+    parseFormData.append('chunk_overlap', String(chunking.chunkOverlap))
+  }
+
+  const parseResult = await lyzrClient.request(
+    parseDocumentEndpoint,
+    { type: parser.type, form: parseFormData },
+    {
+      onUploadProgress: (bytesSent, totalBytes) =>
+        onProgress?.(createUploadProgress('uploading', { bytesSent, totalBytes })),
+      onUploadComplete: () => onProgress?.(createUploadProgress('parsing')),
+    }
+  )
+
+  if (!parseResult.ok) {
+    return {
+      success: false,
+      error: parseResult.error.message,
+      details: parseResult.error.body,
+      retryable: parseResult.error.retryable,
+    }
+  }
+
+  if (chunking.strategy === 'fixed') {
+    return { success: true, documents: parseResult.value }
+  }
+
+  const sections = parseResult.value.map((doc: { text?: string; metadata?: Record<string, any> }) => ({
+    text: doc.text || '',
+    metadata: doc.metadata,
+  }))
+  return { success: true, documents: buildTrainingDocuments(file, sections, chunking) }
+}
+
 // =============================================================================
 // API Functions
 // =============================================================================
@@ -169,54 +287,34 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
-    }
+    const result = await lyzrClient.request(listDocumentsEndpoint, { ragId })
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-    })
-
-    // Return empty array for 404 (no documents yet)
-    if (response.status === 404) {
-      return { success: true, documents: [], ragId }
-    }
+    if (!result.ok) {
+      // Return empty array for 404 (no documents yet)
+      if (result.error.status === 404) {
+        return { success: true, documents: [], ragId }
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text()
       return {
         success: false,
-        error: `Failed to fetch documents: ${response.statusText}`,
-        details: errorText,
+        error: result.error.message,
+        details: result.error.body,
       }
     }
 
-    const rawDocuments = await response.json()
-
     // Transform string array to RAGDocument objects
     // API returns: ["storage/filename.pdf", "storage/other.txt"]
-    const documents: RAGDocument[] = Array.isArray(rawDocuments)
-      ? rawDocuments.map((docPath: string) => {
-        const fileName = docPath.startsWith('storage/')
-          ? docPath.slice(8)
-          : docPath
-
-        const ext = fileName.split('.').pop()?.toLowerCase() || ''
-        let fileType: 'pdf' | 'docx' | 'txt' = 'txt'
-        if (ext === 'pdf') fileType = 'pdf'
-        else if (ext === 'docx') fileType = 'docx'
-
-        return {
-          fileName,
-          fileType,
-          status: 'active' as const,
-        }
-      })
-      : []
+    const documents: RAGDocument[] = result.value.map((docPath) => {
+      const fileName = docPath.startsWith('storage/')
+        ? docPath.slice(8)
+        : docPath
+
+      return {
+        fileName,
+        fileType: getFileTypeFromName(fileName) || 'txt',
+        status: 'active' as const,
+      }
+    })
 
     return {
       success: true,
@@ -235,128 +333,193 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
 }
 
 /**
- * Upload and train a document to RAG knowledge base
+ * Parse a document into training chunks without training the knowledge base.
+ * Use this to preview chunks, then pass them to trainDocumentChunks().
  *
- * Process:
- * 1. Validate file type
- * 2. Parse document using Lyzr Parse API (extracts text chunks)
- * 3. Train knowledge base with parsed document chunks
- *
- * @param ragId - RAG Knowledge Base ID (required)
- * @param file - File to upload (PDF, DOCX, or TXT)
- * @returns Promise with upload result
+ * @param file - File to parse (any format in the parser registry)
+ * @param options - Chunking options
+ * @returns Promise with the parsed chunks
  *
  * @example
  * ```tsx
- * const result = await uploadAndTrainDocument('68eba8c8bc2960ccbdf1b1a0', file)
- * if (result.success) {
- *   console.log('Chunks created:', result.documentCount)
+ * const preview = await parseDocumentChunks(file, {
+ *   chunking: { chunkSize: 800, chunkOverlap: 80, strategy: 'sentence' },
+ * })
+ * if (preview.success) {
+ *   console.log(preview.documents?.map(doc => doc.text))
  * }
  * ```
  */
-export async function uploadAndTrainDocument(
-  ragId: string,
-  file: File
-): Promise<UploadResponse> {
-  try {
-    if (!ragId) {
-      return { success: false, error: 'ragId is required' }
-    }
-
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
-    }
+export async function parseDocumentChunks(
+  file: File,
+  options: UploadOptions = {}
+): Promise<ParseResponse> {
+  const fail = (response: ParseResponse): ParseResponse => {
+    options.onProgress?.(createUploadProgress('failed', { error: response.error }))
+    return response
+  }
 
+  try {
     // Validate file
     const validation = validateFile(file)
     if (!validation.isValid) {
-      return { success: false, error: validation.error }
+      return fail({ success: false, error: validation.error })
     }
 
-    const fileConfig = FILE_TYPE_CONFIG[file.type]
-    if (!fileConfig) {
-      return { success: false, error: `Unsupported file type: ${file.type}` }
+    const parser = findDocumentParser(file)
+    if (!parser) {
+      return fail({ success: false, error: `Unsupported file type: ${getFileMimeType(file)}` })
     }
 
-    // STEP 1: Parse document using Lyzr Parse API
-    const parseFormData = new FormData()
-    parseFormData.append('file', file)
-    parseFormData.append('data_parser', fileConfig.parser)
-    parseFormData.append('extra_info', '{}')
-
-    // Add chunking parameters for PDF (better RAG performance)
-    if (fileConfig.type === 'pdf') {
-      parseFormData.append('chunk_size', '1000')
-      parseFormData.append('chunk_overlap', '100')
+    if (parser.mode === 'server' && !getApiKey()) {
+      return fail({ success: false, error: API_KEY_MISSING_MESSAGE })
     }
 
-    const parseUrl = `${LYZR_RAG_BASE_URL}/parse/${fileConfig.type}/`
+    const chunking = normalizeChunkingOptions(options.chunking)
+    const parseResult = await parseDocument(file, parser, chunking, options.onProgress)
+    if (!parseResult.success) {
+      return fail({
+        success: false,
+        error: parseResult.error,
+        details: parseResult.details,
+        retryable: parseResult.retryable,
+      })
+    }
 
-    const parseResponse = await fetch(parseUrl, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: parseFormData,
+    return {
+      success: true,
+      documents: parseResult.documents,
+      fileName: file.name,
+      fileType: parser.type,
+      chunking,
+      timestamp: new Date().toISOString(),
+    }
+  } catch (error) {
+    console.error('Parse document failed:', error)
+    return fail({
+      success: false,
+      error: 'Failed to parse document',
+      details: error instanceof Error ? error.message : String(error),
     })
+  }
+}
 
-    if (!parseResponse.ok) {
-      const errorText = await parseResponse.text()
-      return {
-        success: false,
-        error: `Document parsing failed: ${parseResponse.statusText}`,
-        details: errorText,
-      }
-    }
+/**
+ * Train a RAG knowledge base with already parsed chunks
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param file - Source file the chunks came from
+ * @param documents - Chunks from parseDocumentChunks()
+ * @param options - onProgress receives 'training', then 'done' or 'failed'
+ * @returns Promise with training result
+ */
+export async function trainDocumentChunks(
+  ragId: string,
+  file: File,
+  documents: RAGTrainingDocument[],
+  options: Pick<UploadOptions, 'onProgress'> = {}
+): Promise<UploadResponse> {
+  const fail = (response: UploadResponse): UploadResponse => {
+    options.onProgress?.(createUploadProgress('failed', { error: response.error }))
+    return response
+  }
 
-    const parseResult = await parseResponse.json()
+  try {
+    if (!ragId) {
+      return fail({ success: false, error: 'ragId is required' })
+    }
 
-    if (!parseResult.documents || !Array.isArray(parseResult.documents)) {
-      return {
-        success: false,
-        error: 'Invalid response format from document parsing',
-      }
+    if (documents.length === 0) {
+      return fail({ success: false, error: 'No chunks to train' })
     }
 
-    // STEP 2: Train knowledge base with parsed documents
-    const trainUrl = `${LYZR_RAG_BASE_URL}/rag/train/${ragId}/`
-
-    const trainResponse = await fetch(trainUrl, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(parseResult.documents),
-    })
+    options.onProgress?.(createUploadProgress('training'))
 
-    if (!trainResponse.ok) {
-      const errorText = await trainResponse.text()
-      return {
+    const trainResult = await lyzrClient.request(trainDocumentsEndpoint, { ragId, documents })
+
+    if (!trainResult.ok) {
+      return fail({
         success: false,
-        error: `Knowledge base training failed: ${trainResponse.statusText}`,
-        details: errorText,
-      }
+        error: trainResult.error.message,
+        details: trainResult.error.body,
+        retryable: trainResult.error.retryable,
+      })
     }
 
+    options.onProgress?.(createUploadProgress('done'))
+
     return {
       success: true,
       message: 'Document uploaded and trained successfully',
       fileName: file.name,
-      fileType: fileConfig.type,
-      documentCount: parseResult.documents.length,
+      fileType: getFileTypeFromName(file.name) || undefined,
+      documentCount: documents.length,
       ragId,
       timestamp: new Date().toISOString(),
     }
   } catch (error) {
-    console.error('Upload document failed:', error)
-    return {
+    console.error('Train document failed:', error)
+    return fail({
       success: false,
-      error: 'Failed to upload document',
+      error: 'Failed to train knowledge base',
       details: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Upload and train a document to RAG knowledge base
+ *
+ * Process:
+ * 1. Validate file type
+ * 2. Parse document into text chunks - PDF, DOCX and TXT through the Lyzr
+ *    Parse API, other registered formats in the browser
+ * 3. Train knowledge base with parsed document chunks
+ *
+ * @param ragId - RAG Knowledge Base ID (required)
+ * @param file - File to upload (any format in the parser registry)
+ * @param options - Chunking options (size, overlap, strategy) and progress callback
+ * @returns Promise with upload result
+ *
+ * @example
+ * ```tsx
+ * const result = await uploadAndTrainDocument('68eba8c8bc2960ccbdf1b1a0', file, {
+ *   chunking: { chunkSize: 1500, chunkOverlap: 150, strategy: 'heading' },
+ *   onProgress: (progress) => console.log(progress.stage, progress.percent),
+ * })
+ * if (result.success) {
+ *   console.log('Chunks created:', result.documentCount)
+ * }
+ * ```
+ */
+export async function uploadAndTrainDocument(
+  ragId: string,
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadResponse> {
+  const error = !ragId
+    ? 'ragId is required'
+    : !getApiKey()
+      ? API_KEY_MISSING_MESSAGE
+      : null
+  if (error) {
+    options.onProgress?.(createUploadProgress('failed', { error }))
+    return { success: false, error }
+  }
+
+  // STEP 1: Parse document into text chunks
+  const parseResult = await parseDocumentChunks(file, options)
+  if (!parseResult.success || !parseResult.documents) {
+    return {
+      success: false,
+      error: parseResult.error,
+      details: parseResult.details,
+      retryable: parseResult.retryable,
     }
   }
+
+  // STEP 2: Train knowledge base with parsed documents
+  return trainDocumentChunks(ragId, file, parseResult.documents, options)
 }
 
 /**
@@ -383,10 +546,6 @@ export async function deleteDocuments(
       return { success: false, error: 'ragId is required' }
     }
 
-    if (!LYZR_API_KEY) {
-      return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
-    }
-
     if (!documents || !Array.isArray(documents) || documents.length === 0) {
       return { success: false, error: 'documents array is required and must not be empty' }
     }
@@ -399,24 +558,16 @@ export async function deleteDocuments(
       return `storage/${doc}`
     })
 
-    const deleteUrl = `${LYZR_RAG_BASE_URL}/rag/${ragId}/docs/`
-
-    const response = await fetch(deleteUrl, {
-      method: 'DELETE',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(formattedDocuments),
+    const result = await lyzrClient.request(deleteDocumentsEndpoint, {
+      ragId,
+      documents: formattedDocuments,
     })
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unknown error')
+    if (!result.ok) {
       return {
         success: false,
-        error: `Failed to delete documents: ${response.statusText}`,
-        details: errorText,
+        error: result.error.message,
+        details: result.error.body,
       }
     }
 
@@ -490,11 +641,11 @@ export function useRAGKnowledgeBase() {
     return result
   }
 
-  const uploadDocument = async (ragId: string, file: File) => {
+  const uploadDocument = async (ragId: string, file: File, options?: UploadOptions) => {
     setLoading(true)
     setError(null)
 
-    const result = await uploadAndTrainDocument(ragId, file)
+    const result = await uploadAndTrainDocument(ragId, file, options)
 
     if (!result.success) {
       setError(result.error || 'Failed to upload document')
@@ -504,6 +655,39 @@ export function useRAGKnowledgeBase() {
     return result
   }
 
+  const previewDocument = async (file: File, options?: UploadOptions) => {
+    setLoading(true)
+    setError(null)
+
+    const result = await parseDocumentChunks(file, options)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to parse document')
+    }
+
+    setLoading(false)
+    return result
+  }
+
+  const trainDocument = async (
+    ragId: string,
+    file: File,
+    chunks: RAGTrainingDocument[],
+    options?: Pick<UploadOptions, 'onProgress'>
+  ) => {
+    setLoading(true)
+    setError(null)
+
+    const result = await trainDocumentChunks(ragId, file, chunks, options)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to train knowledge base')
+    }
+
+    setLoading(false)
+    return result
+  }
+
   const removeDocuments = async (ragId: string, documentNames: string[]) => {
     setLoading(true)
     setError(null)
@@ -528,6 +712,8 @@ export function useRAGKnowledgeBase() {
     error,
     fetchDocuments,
     uploadDocument,
+    previewDocument,
+    trainDocument,
     removeDocuments,
   }
 }
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { formatFeedbackJsonl, getFeedbackId } from '@/hooks/useAnswerFeedback'
+import type { AnswerFeedback } from '@/types'
+
+const entry: AnswerFeedback = {
+  id: 'msg-1-assistant:0',
+  message_id: 'msg-1-assistant',
+  version_index: 0,
+  conversation_id: 'conversation-1',
+  session_id: 'session-1',
+  agent_id: 'agent-1',
+  query: 'How long do refunds take?',
+  answer: 'Refunds are issued within 30 days [1].',
+  confidence: 0.82,
+  sources: [{ citation_number: 1, document_name: 'policy.pdf', page_number: 4, excerpt: 'Within 30 days.' }],
+  rating: 'down',
+  reasons: ['outdated'],
+  comment: 'The policy changed to 14 days\nlast year.',
+  timestamp: new Date('2026-03-01T12:00:00Z'),
+}
+
+describe('getFeedbackId', () => {
+  it('identifies each answer version', () => {
+    expect(getFeedbackId('msg-1', 2)).toBe('msg-1:2')
+    expect(getFeedbackId('msg-1')).toBe('msg-1:0')
+  })
+})
+
+describe('formatFeedbackJsonl', () => {
+  it('writes one JSON object per line', () => {
+    const second = { ...entry, id: 'msg-1-assistant:1', version_index: 1, rating: 'up' as const, reasons: [] }
+    const lines = formatFeedbackJsonl([entry, second]).split('\n')
+
+    expect(lines).toHaveLength(3)
+    expect(lines[2]).toBe('')
+    expect(JSON.parse(lines[0])).toEqual({ ...entry, timestamp: '2026-03-01T12:00:00.000Z' })
+    expect(JSON.parse(lines[1])).toMatchObject({ version_index: 1, rating: 'up', reasons: [] })
+  })
+
+  it('is empty without entries', () => {
+    expect(formatFeedbackJsonl([])).toBe('')
+  })
+})
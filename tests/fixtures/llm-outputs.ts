@@ -0,0 +1,289 @@
+/**
+ * LLM Output Corpus
+ *
+ * Agent outputs the JSON parser has to cope with, one raw text file per
+ * case in tests/fixtures/llm-outputs/, with what parseJson reports for it:
+ * once with the default pipeline (SSE event data) and once with
+ * AGENT_RESPONSE_PARSE_OPTIONS (chat answers). Add a case by dropping the
+ * raw output next to the others and describing it here.
+ */
+
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { ParseStrategy } from '@/lib/json-parser'
+import knowledgeSearchTestResult from '../../response_schemas/test_results/knowledge_search_agent_test_result.json'
+
+export const LLM_OUTPUT_DIR = join(__dirname, 'llm-outputs')
+
+export interface LLMOutputCase {
+  /** Fixture file name without the .txt extension */
+  name: string
+  description: string
+  /** parseJson with the default pipeline */
+  parsed: {
+    success: boolean
+    strategy: ParseStrategy | null
+    trace: ParseStrategy[]
+    data?: unknown
+  }
+  /** parseJson data with AGENT_RESPONSE_PARSE_OPTIONS; null when parsing fails */
+  agentResponse: unknown
+}
+
+export function readLLMOutput(name: string): string {
+  return readFileSync(join(LLM_OUTPUT_DIR, `${name}.txt`), 'utf8')
+}
+
+// =============================================================================
+// Expected Values
+// =============================================================================
+
+function agentAnswer(answer: string, extra: Record<string, unknown> = {}) {
+  return {
+    status: 'success',
+    result: { answer, sources: [], ...extra },
+  }
+}
+
+const chatEnvelopeAnswer = {
+  status: 'success',
+  result: {
+    answer: 'Refunds are issued within 30 days [1].',
+    sources: [
+      {
+        citation_number: 1,
+        document_name: 'policy.pdf',
+        page_number: 4,
+        excerpt: 'Refunds are issued within 30 days.',
+      },
+    ],
+    confidence: 0.82,
+    related_questions: [],
+  },
+}
+
+// =============================================================================
+// Cases
+// =============================================================================
+
+export const LLM_OUTPUT_CASES: LLMOutputCase[] = [
+  {
+    name: 'agent-response',
+    description: 'Well-formed Knowledge Search Agent response recorded by the agent tester',
+    parsed: {
+      success: true,
+      strategy: 'direct',
+      trace: ['direct'],
+      data: knowledgeSearchTestResult.actual_response,
+    },
+    agentResponse: knowledgeSearchTestResult.actual_response,
+  },
+  {
+    name: 'chat-envelope',
+    description: '/inference/chat/ envelope with the agent JSON encoded in "response"',
+    parsed: {
+      success: true,
+      strategy: 'direct',
+      trace: ['direct'],
+      data: {
+        response:
+          '{"status": "success", "result": {"answer": "Refunds are issued within 30 days [1].", ' +
+          '"sources": [{"citation_number": 1, "document_name": "policy.pdf", "page_number": 4, ' +
+          '"excerpt": "Refunds are issued within 30 days."}], "confidence": 0.82, "related_questions": []}}',
+        module_outputs: {},
+        role: 'assistant',
+      },
+    },
+    agentResponse: chatEnvelopeAnswer,
+  },
+  {
+    name: 'raw-response-wrapper',
+    description: 'Envelope carrying the answer in raw_response next to a decoy response',
+    parsed: {
+      success: true,
+      strategy: 'direct',
+      trace: ['direct'],
+      data: {
+        raw_response:
+          '{"status": "success", "result": {"answer": "Expenses need receipts.", "sources": [], ' +
+          '"confidence": 0.7, "related_questions": []}}',
+        response: 'ignored',
+      },
+    },
+    agentResponse: agentAnswer('Expenses need receipts.', { confidence: 0.7, related_questions: [] }),
+  },
+  {
+    name: 'double-encoded',
+    description: 'Agent JSON serialised three times, so the whole output is a JSON string literal',
+    parsed: {
+      success: true,
+      strategy: 'direct',
+      trace: ['direct', 'decode', 'decode'],
+      data: agentAnswer('Passwords rotate every 90 days.', { confidence: 0.8, related_questions: [] }),
+    },
+    agentResponse: agentAnswer('Passwords rotate every 90 days.', { confidence: 0.8, related_questions: [] }),
+  },
+  {
+    name: 'fenced-json',
+    description: 'Answer in a ```json block between prose',
+    parsed: {
+      success: true,
+      strategy: 'extract',
+      trace: ['extract'],
+      data: agentAnswer('The warranty covers parts for two years.', {
+        confidence: 0.7,
+        related_questions: ['Does the warranty cover labour?'],
+      }),
+    },
+    agentResponse: agentAnswer('The warranty covers parts for two years.', {
+      confidence: 0.7,
+      related_questions: ['Does the warranty cover labour?'],
+    }),
+  },
+  {
+    name: 'fenced-no-language',
+    description: 'Answer in a ``` block without a language tag',
+    parsed: {
+      success: true,
+      strategy: 'extract',
+      trace: ['extract'],
+      data: agentAnswer('Office hours are 9 to 5.', { confidence: 0.6, related_questions: [] }),
+    },
+    agentResponse: agentAnswer('Office hours are 9 to 5.', { confidence: 0.6, related_questions: [] }),
+  },
+  {
+    name: 'trailing-commas',
+    description: 'Pretty-printed JSON with trailing commas in arrays and objects',
+    parsed: {
+      success: true,
+      strategy: 'clean',
+      trace: ['clean'],
+      data: agentAnswer('Invoices are due in 14 days.', {
+        confidence: 0.9,
+        related_questions: ['What happens after the due date?'],
+      }),
+    },
+    agentResponse: agentAnswer('Invoices are due in 14 days.', {
+      confidence: 0.9,
+      related_questions: ['What happens after the due date?'],
+    }),
+  },
+  {
+    name: 'fenced-trailing-commas',
+    description: 'Fenced JSON that also has trailing commas',
+    parsed: {
+      success: true,
+      strategy: 'extract',
+      trace: ['extract', 'clean'],
+      data: agentAnswer('The deadline is March 1.', { confidence: 0.75, related_questions: [] }),
+    },
+    agentResponse: agentAnswer('The deadline is March 1.', { confidence: 0.75, related_questions: [] }),
+  },
+  {
+    name: 'prose-wrapped',
+    description: 'Inline JSON object with prose before and after it',
+    parsed: {
+      success: true,
+      strategy: 'extract',
+      trace: ['extract'],
+      data: agentAnswer('Remote work needs manager approval.', { confidence: 0.65, related_questions: [] }),
+    },
+    agentResponse: agentAnswer('Remote work needs manager approval.', { confidence: 0.65, related_questions: [] }),
+  },
+  {
+    name: 'json-array',
+    description: 'JSON array of sources after a prose label',
+    parsed: {
+      success: true,
+      strategy: 'extract',
+      trace: ['extract'],
+      data: [
+        { document_name: 'handbook.pdf', page_number: 3 },
+        { document_name: 'faq.docx', page_number: 1 },
+      ],
+    },
+    agentResponse: [
+      { document_name: 'handbook.pdf', page_number: 3 },
+      { document_name: 'faq.docx', page_number: 1 },
+    ],
+  },
+  {
+    name: 'python-literals',
+    description: 'Python dict repr: single quotes, True and None',
+    parsed: {
+      success: true,
+      strategy: 'clean',
+      trace: ['clean'],
+      data: agentAnswer('Parking is free for staff.', { confidence: 0.5, verified: true, notes: null }),
+    },
+    agentResponse: agentAnswer('Parking is free for staff.', { confidence: 0.5, verified: true, notes: null }),
+  },
+  {
+    name: 'commented-json',
+    description: 'JSON with // and /* */ comments',
+    parsed: {
+      success: true,
+      strategy: 'clean',
+      trace: ['clean'],
+      data: agentAnswer('Badges are issued at reception.', { confidence: 0.55, related_questions: [] }),
+    },
+    agentResponse: agentAnswer('Badges are issued at reception.', { confidence: 0.55, related_questions: [] }),
+  },
+  {
+    name: 'unescaped-newline',
+    description: 'Raw line break inside a string value',
+    parsed: {
+      success: true,
+      strategy: 'clean',
+      trace: ['clean'],
+      data: { status: 'success', result: { answer: 'Line one.\nLine two.', confidence: 0.4 } },
+    },
+    agentResponse: { status: 'success', result: { answer: 'Line one.\nLine two.', confidence: 0.4 } },
+  },
+  {
+    name: 'truncated-object',
+    description: 'Response cut off mid-string, as from a dropped stream',
+    parsed: {
+      success: true,
+      strategy: 'streaming_partial',
+      trace: ['streaming_partial'],
+      data: {
+        status: 'success',
+        result: {
+          answer: 'The onboarding checklist has five steps',
+          sources: [
+            {
+              citation_number: 1,
+              document_name: 'onboarding.pdf',
+              page_number: 2,
+              excerpt: 'Step one is',
+            },
+          ],
+        },
+      },
+    },
+    // A cut-off answer fails instead of rendering short
+    agentResponse: null,
+  },
+  {
+    name: 'bare-pairs',
+    description: 'Key-value lines without the surrounding braces',
+    parsed: {
+      success: true,
+      strategy: 'partial',
+      trace: ['partial'],
+      data: { answer: 'The office is closed on public holidays.', confidence: 0.6 },
+    },
+    agentResponse: null,
+  },
+  {
+    name: 'plain-text',
+    description: 'Refusal without any JSON',
+    parsed: {
+      success: false,
+      strategy: null,
+      trace: [],
+    },
+    agentResponse: null,
+  },
+]
@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  ApiError,
+  createRetryMiddleware,
+  parseRetryAfter,
+  type HttpRequest,
+  type RetryEvent,
+} from '@/lib/http-client'
+
+const request = (overrides: Partial<HttpRequest> = {}): HttpRequest => ({
+  endpoint: 'Agent chat',
+  method: 'POST',
+  url: 'https://example.test/chat',
+  headers: {},
+  timeoutMs: 0,
+  maxAttempts: 3,
+  attempt: 1,
+  ...overrides,
+})
+
+// Responses handed out in order, one per attempt
+const respondWith = (...responses: Response[]) =>
+  vi.fn(async (_request: HttpRequest) => responses.shift() ?? new Response('ok'))
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-03-01T12:00:00Z')
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('2', now)).toBe(2000)
+    expect(parseRetryAfter(' 0.5 ', now)).toBe(500)
+    expect(parseRetryAfter('0', now)).toBe(0)
+  })
+
+  it('reads an HTTP date', () => {
+    expect(parseRetryAfter('Sun, 01 Mar 2026 12:00:30 GMT', now)).toBe(30000)
+    expect(parseRetryAfter('Sun, 01 Mar 2026 11:59:00 GMT', now)).toBe(0)
+  })
+
+  it('is null when missing or unreadable', () => {
+    expect(parseRetryAfter(null, now)).toBeNull()
+    expect(parseRetryAfter('', now)).toBeNull()
+    expect(parseRetryAfter('soon', now)).toBeNull()
+    expect(parseRetryAfter('-1', now)).toBeNull()
+  })
+})
+
+describe('createRetryMiddleware', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('waits as long as Retry-After asks before the next attempt', async () => {
+    vi.useFakeTimers()
+    const retries: RetryEvent[] = []
+    const next = respondWith(new Response('busy', { status: 429, headers: { 'Retry-After': '3' } }))
+
+    const pending = createRetryMiddleware({ baseDelayMs: 10 })(
+      request({ onRetry: (retry) => retries.push(retry) }),
+      next
+    )
+    await vi.advanceTimersByTimeAsync(2999)
+    expect(next).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect((await pending).status).toBe(200)
+    expect(next).toHaveBeenCalledTimes(2)
+    expect(retries).toMatchObject([{ attempt: 2, maxAttempts: 3, delayMs: 3000, error: { status: 429 } }])
+  })
+
+  it('returns the response when Retry-After asks for longer than allowed', async () => {
+    const next = respondWith(new Response('down', { status: 503, headers: { 'Retry-After': '120' } }))
+
+    const response = await createRetryMiddleware({ maxRetryAfterMs: 60000 })(request(), next)
+
+    expect(response.status).toBe(503)
+    expect(next).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not retry client errors', async () => {
+    const next = respondWith(new Response('bad', { status: 400 }))
+
+    const response = await createRetryMiddleware()(request(), next)
+
+    expect(response.status).toBe(400)
+    expect(next).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops after maxAttempts', async () => {
+    const next = respondWith(
+      new Response('', { status: 500, headers: { 'Retry-After': '0' } }),
+      new Response('', { status: 502, headers: { 'Retry-After': '0' } })
+    )
+
+    const response = await createRetryMiddleware()(request({ maxAttempts: 2 }), next)
+
+    expect(response.status).toBe(502)
+    expect(next.mock.calls.map(([sent]) => sent.attempt)).toEqual([1, 2])
+  })
+
+  it('leaves failures the predicate declines to the caller', async () => {
+    const shouldRetry = (_error: ApiError, retryAfterMs: number | null) => retryAfterMs !== null
+    const next = respondWith(new Response('', { status: 500 }))
+
+    const response = await createRetryMiddleware()(request({ shouldRetry }), next)
+    expect(response.status).toBe(500)
+    expect(next).toHaveBeenCalledTimes(1)
+
+    const timingOut = vi.fn(async (_request: HttpRequest): Promise<Response> => {
+      throw new ApiError('timeout', 'Agent chat timed out', { endpoint: 'Agent chat' })
+    })
+    await expect(createRetryMiddleware()(request({ shouldRetry }), timingOut)).rejects.toMatchObject({
+      kind: 'timeout',
+    })
+    expect(timingOut).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries failures the predicate accepts', async () => {
+    const next = respondWith(new Response('', { status: 503, headers: { 'Retry-After': '0' } }))
+
+    const response = await createRetryMiddleware()(
+      request({ shouldRetry: (error, retryAfterMs) => error.status === 503 && retryAfterMs !== null }),
+      next
+    )
+
+    expect(response.status).toBe(200)
+    expect(next).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,230 @@
+import { readdirSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import {
+  AGENT_RESPONSE_PARSE_OPTIONS,
+  formatParseDiagnostics,
+  parseJson,
+  parsePartialJson,
+  parseSSEData,
+  readPartialJson,
+} from '@/lib/json-parser'
+import { createStreamingJsonParser } from '@/lib/streaming-json'
+import { LLM_OUTPUT_CASES, LLM_OUTPUT_DIR, readLLMOutput } from './fixtures/llm-outputs'
+
+describe('LLM output corpus', () => {
+  it('describes every fixture file', () => {
+    const files = readdirSync(LLM_OUTPUT_DIR).filter((name) => name.endsWith('.txt')).sort()
+    const cases = LLM_OUTPUT_CASES.map((c) => `${c.name}.txt`).sort()
+    expect(cases).toEqual(files)
+  })
+})
+
+describe('parseJson', () => {
+  describe.each(LLM_OUTPUT_CASES)('$name: $description', (fixture) => {
+    const text = readLLMOutput(fixture.name)
+
+    it(`reports the ${fixture.parsed.strategy ?? 'failed'} strategy and its trace`, () => {
+      const result = parseJson(text)
+      expect(result.success).toBe(fixture.parsed.success)
+      expect(result.strategy).toBe(fixture.parsed.strategy)
+      expect(result.trace).toEqual(fixture.parsed.trace)
+    })
+
+    it('returns the expected value', () => {
+      const result = parseJson(text)
+      if (fixture.parsed.success) {
+        expect(result.data).toEqual(fixture.parsed.data)
+      } else {
+        expect(result.data).toBeUndefined()
+        expect(result.raw).toBe(text.trim())
+        expect(result.error).toBe('No valid JSON found in the response')
+      }
+    })
+
+    it('returns the agent response', () => {
+      const result = parseJson(text, AGENT_RESPONSE_PARSE_OPTIONS)
+      expect(result.success).toBe(fixture.agentResponse !== null)
+      expect(result.data ?? null).toEqual(fixture.agentResponse)
+    })
+  })
+
+  it('fails on empty input', () => {
+    for (const input of [null, undefined, '', '   ']) {
+      const result = parseJson(input)
+      expect(result).toMatchObject({ success: false, error: 'Empty input', strategy: null, trace: [] })
+    }
+  })
+
+  it('parses JSON scalars directly', () => {
+    expect(parseJson('42')).toMatchObject({ success: true, data: 42, strategy: 'direct' })
+    expect(parseJson(' "text" ')).toMatchObject({ success: true, data: 'text', trace: ['direct'] })
+  })
+
+  it('explains failures in its diagnostics', () => {
+    const result = parseJson(readLLMOutput('plain-text'), AGENT_RESPONSE_PARSE_OPTIONS)
+    expect(result.diagnostics.map((d) => d.strategy)).toEqual(['direct', 'clean', 'extract'])
+    expect(formatParseDiagnostics(result)).toContain('extract: No JSON found in the text')
+  })
+
+  it('lists the repairs clean made', () => {
+    const result = parseJson(readLLMOutput('python-literals'))
+    expect(result.diagnostics.filter((d) => d.strategy === 'clean').map((d) => d.message)).toEqual([
+      'Converted single-quoted strings',
+      'Converted True/False/None/undefined',
+    ])
+  })
+
+  describe('clean', () => {
+    it('leaves comment markers and keywords inside strings alone', () => {
+      const text = "{'url': 'https://example.com/#top', 'note': 'True // None', 'n': None,}"
+      expect(parseJson(text).data).toEqual({ url: 'https://example.com/#top', note: 'True // None', n: null })
+    })
+
+    it('quotes bare keys and drops ellipses', () => {
+      expect(parseJson('{answer: "Yes", pages: [1, 2, ...]}').data).toEqual({ answer: 'Yes', pages: [1, 2] })
+    })
+
+    it('replaces typographic quotes', () => {
+      expect(parseJson('{“answer”: “It’s fine”}').data).toEqual({ answer: 'It’s fine' })
+    })
+  })
+
+  describe('strategies option', () => {
+    it('skips disabled strategies', () => {
+      const text = readLLMOutput('python-literals')
+      expect(parseJson(text, { strategies: ['direct', 'extract'] }).success).toBe(false)
+    })
+
+    it('recovers truncated JSON only with streaming_partial', () => {
+      const text = readLLMOutput('truncated-object')
+      expect(parseJson(text, { strategies: ['direct', 'streaming_partial'] }).strategy).toBe('streaming_partial')
+      expect(parseJson(text, { strategies: ['direct', 'partial'] }).strategy).toBe('partial')
+    })
+  })
+
+  describe('unwrap', () => {
+    const answer = { status: 'success', result: { answer: 'Yes' } }
+
+    it('stops at a { status, result } agent response', () => {
+      const result = parseJson({ response: { ...answer, response: 'inner' } }, AGENT_RESPONSE_PARSE_OPTIONS)
+      expect(result.data).toEqual({ ...answer, response: 'inner' })
+      expect(result.trace).toEqual(['direct', 'unwrap'])
+    })
+
+    it('unwraps already-parsed envelopes', () => {
+      const result = parseJson({ data: { output: JSON.stringify(answer) } }, AGENT_RESPONSE_PARSE_OPTIONS)
+      expect(result.data).toEqual(answer)
+      expect(result.trace).toEqual(['direct', 'unwrap', 'unwrap'])
+    })
+
+    it('reads text from SDK message shapes', () => {
+      const anthropic = { content: [{ type: 'text', text: JSON.stringify(answer) }] }
+      const openai = { choices: [{ message: { content: JSON.stringify(answer) } }] }
+      expect(parseJson(anthropic, AGENT_RESPONSE_PARSE_OPTIONS).data).toEqual(answer)
+      expect(parseJson(openai, AGENT_RESPONSE_PARSE_OPTIONS).data).toEqual(answer)
+    })
+
+    it('leaves plain-text fields in place', () => {
+      const envelope = { message: 'Hello there', role: 'assistant' }
+      expect(parseJson(envelope, AGENT_RESPONSE_PARSE_OPTIONS).data).toEqual(envelope)
+    })
+
+    it('honours maxUnwrapDepth', () => {
+      const nested = { data: { data: { data: answer } } }
+      expect(parseJson(nested, { ...AGENT_RESPONSE_PARSE_OPTIONS, maxUnwrapDepth: 2 }).data).toEqual({
+        data: answer,
+      })
+      expect(parseJson(nested, AGENT_RESPONSE_PARSE_OPTIONS).data).toEqual(answer)
+    })
+
+    it('uses the given unwrapKeys only', () => {
+      const options = { ...AGENT_RESPONSE_PARSE_OPTIONS, unwrapKeys: ['payload'] }
+      expect(parseJson({ payload: answer }, options).data).toEqual(answer)
+      expect(parseJson({ data: answer }, options).data).toEqual({ data: answer })
+    })
+
+    it('is off by default', () => {
+      expect(parseJson({ data: answer }).data).toEqual({ data: answer })
+    })
+  })
+
+  describe('decode', () => {
+    it('decodes nested JSON strings up to maxDecodeDepth', () => {
+      const text = readLLMOutput('double-encoded')
+      const result = parseJson(text, { maxDecodeDepth: 1 })
+      expect(result.data).toBe(JSON.parse(JSON.parse(text)))
+      expect(result.trace).toEqual(['direct', 'decode'])
+    })
+
+    it('leaves strings that are not JSON alone', () => {
+      expect(parseJson('"[1] is the first source"').data).toBe('[1] is the first source')
+    })
+  })
+})
+
+describe('parsePartialJson', () => {
+  it('closes open strings, arrays and objects', () => {
+    expect(parsePartialJson('{"answer": "Refunds take 5 d')).toEqual({
+      value: { answer: 'Refunds take 5 d' },
+      complete: false,
+    })
+    expect(parsePartialJson('{"sources": [{"page": 2}, {"pa')).toEqual({
+      value: { sources: [{ page: 2 }, {}] },
+      complete: false,
+    })
+  })
+
+  it('leaves out members whose value has not started', () => {
+    expect(parsePartialJson('{"a": 1, "b":')?.value).toEqual({ a: 1 })
+    expect(parsePartialJson('{"a": 1, "b": tr')?.value).toEqual({ a: 1 })
+    expect(parsePartialJson('{"a": 1,')?.value).toEqual({ a: 1 })
+  })
+
+  it('drops an escape sequence cut in half', () => {
+    expect(parsePartialJson('{"a": "x\\u00')?.value).toEqual({ a: 'x' })
+    expect(parsePartialJson('{"a": "x\\')?.value).toEqual({ a: 'x' })
+  })
+
+  it('skips prose and fences before the JSON', () => {
+    expect(parsePartialJson('Sure:\n```json\n{"status": "succ')).toEqual({
+      value: { status: 'succ' },
+      complete: false,
+    })
+  })
+
+  it('reports complete values', () => {
+    expect(parsePartialJson('{"a": [1, 2]}')).toEqual({ value: { a: [1, 2] }, complete: true })
+  })
+
+  it('returns null without a JSON start', () => {
+    expect(parsePartialJson('Just text')).toBeNull()
+    expect(parsePartialJson('{"a" 1')).toBeNull()
+  })
+})
+
+describe('readPartialJson', () => {
+  it('reads single-quoted and Python-style output the streaming parser stops on', () => {
+    const text = "{'answer': 'Refunds take 5 d"
+    expect(createStreamingJsonParser().push(text).started).toBe(false)
+    expect(readPartialJson(text)).toMatchObject({ value: { answer: 'Refunds take 5 d' }, started: true })
+    expect(readPartialJson("{'ok': True, 'page': None, 'sources': [{'a': 1}").value).toEqual({
+      ok: true,
+      page: null,
+      sources: [{ a: 1 }],
+    })
+  })
+})
+
+describe('parseSSEData', () => {
+  it('strips the data: prefix', () => {
+    expect(parseSSEData('data: {"content": "Hel"}')).toMatchObject({
+      success: true,
+      data: { content: 'Hel' },
+      strategy: 'direct',
+    })
+  })
+
+  it('recognises the [DONE] marker', () => {
+    expect(parseSSEData('data: [DONE]')).toMatchObject({ success: true, data: { done: true } })
+  })
+})
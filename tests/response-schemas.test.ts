@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { knowledgeSearchResultSchema } from '@/lib/response-schemas'
+
+const parse = (result: Record<string, unknown>) =>
+  knowledgeSearchResultSchema.safeParse({ answer: 'Yes', ...result })
+
+describe('knowledgeSearchResultSchema', () => {
+  describe('sources', () => {
+    it.each([
+      ['report.pdf (p. 3)', 'report.pdf', 3],
+      ['report.pdf, page 3', 'report.pdf', 3],
+      ['report.pdf - pg 3', 'report.pdf', 3],
+      ['report.pdf p 12', 'report.pdf', 12],
+      ['Setup Step 2', 'Setup Step 2', 0],
+      ['Appendix 4', 'Appendix 4', 0],
+    ])('reads %j as %j, page %i', (source, documentName, pageNumber) => {
+      expect(parse({ sources: [source] }).data?.sources).toEqual([
+        { citation_number: 1, document_name: documentName, page_number: pageNumber, excerpt: '' },
+      ])
+    })
+
+    it('accepts alternative field names', () => {
+      expect(parse({ sources: [{ document: 'a.pdf', page: '2', text: 'x' }] }).data?.sources).toEqual([
+        { citation_number: 1, document_name: 'a.pdf', page_number: 2, excerpt: 'x' },
+      ])
+    })
+  })
+
+  describe('confidence', () => {
+    it.each([
+      [0.8, 0.8],
+      ['0.8', 0.8],
+      [1, 1],
+      ['1', 1],
+      ['80%', 0.8],
+      ['1.5%', 0.015],
+      [85, 0.85],
+      [2, 0.02],
+      [undefined, 0],
+    ])('reads %j as %d', (confidence, expected) => {
+      expect(parse({ confidence }).data?.confidence).toBe(expected)
+    })
+
+    it.each([1.5, 99.5, 150, -0.1, 'high'])('rejects %j', (confidence) => {
+      expect(parse({ confidence }).success).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { knowledgeSearchResponseSchema } from '@/lib/response-schemas'
+import { createStreamingJsonParser, type StreamingJsonSnapshot } from '@/lib/streaming-json'
+import { readLLMOutput } from './fixtures/llm-outputs'
+
+// Feed text in chunks of `size` characters, keeping every snapshot
+function feed(text: string, size: number): StreamingJsonSnapshot<any>[] {
+  const parser = createStreamingJsonParser()
+  const snapshots: StreamingJsonSnapshot<any>[] = []
+  for (let i = 0; i < text.length; i += size) {
+    // Copy the live value so later chunks do not change earlier snapshots
+    const snapshot = parser.push(text.slice(i, i + size))
+    snapshots.push({ ...snapshot, value: structuredClone(snapshot.value) })
+  }
+  return snapshots
+}
+
+describe('createStreamingJsonParser', () => {
+  it.each([1, 3, 17, 1000])('ends with the parsed value when fed %i characters at a time', (size) => {
+    const text = readLLMOutput('agent-response')
+    const last = feed(text, size).at(-1)
+    expect(last).toMatchObject({ value: JSON.parse(text), started: true, complete: true, error: null })
+  })
+
+  it('skips prose and fences around the JSON', () => {
+    const last = feed(readLLMOutput('fenced-json'), 5).at(-1)
+    expect(last.complete).toBe(true)
+    expect(last.value.result.related_questions).toEqual(['Does the warranty cover labour?'])
+  })
+
+  it('grows the answer chunk by chunk', () => {
+    const answers = feed('{"answer": "Refunds take 5 days"}', 8).map((s) => s.value?.answer)
+    expect(answers).toEqual([undefined, 'Refu', 'Refunds take', 'Refunds take 5 days', 'Refunds take 5 days'])
+  })
+
+  it('keeps nested objects intact', () => {
+    const text = '{"a": {"b": {"c": "x", "d": [1, {"e": null}]}}, "f": true}'
+    const snapshots = feed(text, 4)
+    expect(snapshots.at(-1).value).toEqual(JSON.parse(text))
+    expect(snapshots[7].value).toEqual({ a: { b: { c: 'x', d: [1] } } })
+  })
+
+  it('reports the path of the value still arriving', () => {
+    const parser = createStreamingJsonParser()
+    expect(parser.push('{"result": {"answer": "Ye').pendingPath).toEqual(['result', 'answer'])
+    expect(parser.push('s", "sources": [').pendingPath).toBeNull()
+    expect(parser.push('"a.pdf').pendingPath).toEqual(['result', 'sources', 0])
+  })
+
+  it('shows a number only while it is valid', () => {
+    const parser = createStreamingJsonParser()
+    expect(parser.push('{"confidence": 0.').value).toEqual({})
+    expect(parser.push('8').value).toEqual({ confidence: 0.8 })
+    expect(parser.push('5}')).toMatchObject({ value: { confidence: 0.85 }, pendingPath: null, complete: true })
+  })
+
+  it('decodes escapes split across chunks', () => {
+    const parser = createStreamingJsonParser()
+    expect(parser.push('{"answer": "a\\').value).toEqual({ answer: 'a' })
+    expect(parser.push('nb \\u00').value).toEqual({ answer: 'a\nb ' })
+    expect(parser.push('e9"}').value).toEqual({ answer: 'a\nb é' })
+  })
+
+  it('marks containers closed at their closing bracket', () => {
+    const { value, isClosed }: StreamingJsonSnapshot<any> = createStreamingJsonParser().push(
+      '{"sources": [{"page": 2}, {"page": 3'
+    )
+    expect(isClosed(value.sources[0])).toBe(true)
+    expect(isClosed(value.sources[1])).toBe(false)
+    expect(isClosed(value.sources)).toBe(false)
+    expect(isClosed('text')).toBe(false)
+  })
+
+  it('accepts trailing commas and raw line breaks in strings', () => {
+    const snapshot = createStreamingJsonParser().push('{"a": "x\ny", "b": [1, 2,],}')
+    expect(snapshot).toMatchObject({ value: { a: 'x\ny', b: [1, 2] }, complete: true, error: null })
+  })
+
+  it('stops at a syntax error and keeps what came before', () => {
+    const parser = createStreamingJsonParser()
+    const snapshot = parser.push('{"a": 1, "b" 2, "c": 3}')
+    expect(snapshot).toMatchObject({ value: { a: 1 }, complete: false, error: 'Unexpected "2" at position 13' })
+    expect(parser.push('}').value).toEqual({ a: 1 })
+  })
+
+  it('ignores text after the value', () => {
+    const parser = createStreamingJsonParser()
+    parser.push('{"a": 1}\n```\nMore {"b": 2}')
+    expect(parser.snapshot()).toMatchObject({ value: { a: 1 }, complete: true, error: null })
+  })
+
+  it('only starts at a bracket that can open JSON', () => {
+    const parser = createStreamingJsonParser()
+    expect(parser.push('Sure [see below] and {this}: ').started).toBe(false)
+    expect(parser.push('[').started).toBe(false)
+    expect(parser.push(' {"a": 1}]')).toMatchObject({ value: [{ a: 1 }], complete: true, error: null })
+  })
+
+  it('has no value before the JSON starts', () => {
+    expect(createStreamingJsonParser().push('Sure, here it is:')).toMatchObject({
+      value: undefined,
+      started: false,
+      complete: false,
+    })
+  })
+})
+
+describe('knowledgeSearchResponseSchema.partial', () => {
+  const readPartial = (text: string) => knowledgeSearchResponseSchema.partial(createStreamingJsonParser().push(text))
+
+  it('returns the answer so far and completed sources', () => {
+    expect(readPartial(readLLMOutput('truncated-object'))).toEqual({
+      answer: 'The onboarding checklist has five steps',
+      sources: [],
+      confidence: 0,
+      related_questions: [],
+    })
+
+    const text =
+      '{"status": "success", "result": {"answer": "See [1] and [2].", "sources": [' +
+      '{"citation_number": 1, "document_name": "a.pdf", "page_number": 2, "excerpt": "x"}, ' +
+      '{"citation_number": 2, "document_name": "b.pdf"'
+    expect(readPartial(text).sources).toEqual([
+      { citation_number: 1, document_name: 'a.pdf', page_number: 2, excerpt: 'x' },
+    ])
+  })
+
+  it('coerces sources and skips ones that fail validation', () => {
+    const result = readPartial('{"answer": "", "sources": ["policy.pdf (p. 4)", {"page": 1}, "notes.p')
+    expect(result.sources).toEqual([
+      { citation_number: 1, document_name: 'policy.pdf', page_number: 4, excerpt: '' },
+    ])
+  })
+
+  it('waits for confidence and related questions to finish', () => {
+    expect(readPartial('{"answer": "Yes", "confidence": 0.8').confidence).toBe(0)
+    expect(readPartial('{"answer": "Yes", "confidence": 0.8,').confidence).toBe(0.8)
+    expect(readPartial('{"answer": "Yes", "related_questions": ["Why?", "How').related_questions).toEqual([
+      'Why?',
+    ])
+  })
+
+  it('returns null before an object starts', () => {
+    expect(readPartial('Thinking')).toBeNull()
+    expect(readPartial('["a"')).toBeNull()
+  })
+})
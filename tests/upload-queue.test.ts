@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createUploadQueue, type UploadTaskResult } from '@/lib/upload-queue'
+
+const file = (name: string) => new File(['content'], name, { type: 'text/plain' })
+
+describe('createUploadQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('retries a transient failure after a backoff', async () => {
+    const run = vi
+      .fn<() => Promise<UploadTaskResult>>()
+      .mockResolvedValueOnce({ success: false, error: 'Service unavailable', retryable: true })
+      .mockResolvedValueOnce({ success: true })
+    const statuses: string[] = []
+    const queue = createUploadQueue({
+      run,
+      baseDelayMs: 1000,
+      onChange: (item) => statuses.push(item.status),
+    })
+
+    queue.enqueue('doc-1', file('a.txt'))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getItem('doc-1')).toMatchObject({ status: 'waiting', attempts: 1, error: 'Service unavailable' })
+
+    await vi.advanceTimersByTimeAsync(1200)
+    expect(run).toHaveBeenCalledTimes(2)
+    expect(queue.getItem('doc-1')).toMatchObject({ status: 'success', attempts: 2 })
+    expect(statuses).toEqual(['queued', 'running', 'waiting', 'queued', 'running', 'success'])
+  })
+
+  it('does not retry a client error', async () => {
+    const run = vi.fn(async (): Promise<UploadTaskResult> => ({ success: false, error: 'Bad request', retryable: false }))
+    const queue = createUploadQueue({ run })
+
+    queue.enqueue('doc-1', file('a.txt'))
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(queue.getItem('doc-1')).toMatchObject({ status: 'error', attempts: 1, error: 'Bad request' })
+    expect(queue.pendingCount()).toBe(0)
+  })
+
+  it('gives up after maxAttempts', async () => {
+    const run = vi.fn(async (): Promise<UploadTaskResult> => ({ success: false, error: 'Timed out', retryable: true }))
+    const queue = createUploadQueue({ run, maxAttempts: 2, baseDelayMs: 100 })
+
+    queue.enqueue('doc-1', file('a.txt'))
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(run).toHaveBeenCalledTimes(2)
+    expect(queue.getItem('doc-1')?.status).toBe('error')
+  })
+
+  it('cancels removed items before they start or retry', async () => {
+    const run = vi.fn(
+      async (_file: File): Promise<UploadTaskResult> => ({ success: false, error: 'Bad gateway', retryable: true })
+    )
+    const queue = createUploadQueue({ run, concurrency: 1 })
+
+    queue.enqueue('doc-1', file('a.txt'))
+    queue.enqueue('doc-2', file('b.txt'))
+    queue.remove('doc-2')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queue.getItem('doc-1')?.status).toBe('waiting')
+
+    queue.remove('doc-1')
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(run.mock.calls[0][0].name).toBe('a.txt')
+    expect(queue.getItem('doc-1')).toBeUndefined()
+    expect(queue.pendingCount()).toBe(0)
+  })
+})